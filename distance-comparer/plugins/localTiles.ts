@@ -0,0 +1,190 @@
+/**
+ * Local tile server (offline / air-gapped use)
+ * Serves an XYZ tile directory ({z}/{x}/{y}.png|jpg|webp) or an .mbtiles file
+ * from the dev and preview servers at /local-tiles/{z}/{x}/{y}, and tells the
+ * app about it through the VITE_LOCAL_TILES_* variables (see src/env.d.ts)
+ *
+ *   LOCAL_TILES=/data/tiles npm run dev
+ *   LOCAL_TILES=/data/region.mbtiles npm run dev
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import type { Connect, Plugin } from 'vite'
+
+export interface LocalTilesOptions {
+  /** XYZ tile directory or .mbtiles file (plugin does nothing when empty) */
+  source?: string
+  /** Attribution shown under the map (required by most tile licences) */
+  attribution?: string
+  /** URL path the tiles are served under */
+  route?: string
+}
+
+/**
+ * Tile store on disk
+ */
+interface TileSource {
+  /** Zoom levels present in the source, when known */
+  zoomRange: { min: number; max: number } | null
+  /** Tile bytes and content type, or null when the tile does not exist */
+  read(z: number, x: number, y: number): { data: Uint8Array; contentType: string } | null
+}
+
+// Request path below the route: /{z}/{x}/{y} with an optional extension
+const TILE_PATH = /^\/(\d+)\/(\d+)\/(\d+)(?:\.\w+)?$/
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+}
+
+/**
+ * XYZ directory: one folder per zoom level, one per column, a file per row
+ */
+function openDirectory(directory: string): TileSource {
+  if (!fs.statSync(directory).isDirectory()) {
+    throw new Error(`LOCAL_TILES is not a directory or .mbtiles file: ${directory}`)
+  }
+
+  const zooms = fs
+    .readdirSync(directory)
+    .filter((name) => /^\d+$/.test(name))
+    .map(Number)
+
+  return {
+    zoomRange: zooms.length > 0 ? { min: Math.min(...zooms), max: Math.max(...zooms) } : null,
+    read(z, x, y) {
+      for (const [extension, contentType] of Object.entries(IMAGE_TYPES)) {
+        const file = path.join(directory, String(z), String(x), `${y}.${extension}`)
+        if (fs.existsSync(file)) {
+          return { data: fs.readFileSync(file), contentType }
+        }
+      }
+      return null
+    },
+  }
+}
+
+/**
+ * MBTiles: SQLite database with TMS row numbering (rows count from the south)
+ */
+async function openMbtiles(file: string): Promise<TileSource> {
+  // Built into Node.js 22.13+, so no native dependency is needed
+  let sqlite: typeof import('node:sqlite')
+  try {
+    sqlite = await import('node:sqlite')
+  } catch {
+    throw new Error(
+      'Serving .mbtiles files needs Node.js 22.13 or newer (node:sqlite). ' +
+        'Extract the tiles to an XYZ directory to use an older Node.js.'
+    )
+  }
+
+  const database = new sqlite.DatabaseSync(file, { readOnly: true })
+  const metadata = Object.fromEntries(
+    database
+      .prepare('SELECT name, value FROM metadata')
+      .all()
+      .map((row) => [String(row.name), String(row.value)])
+  )
+  const contentType = IMAGE_TYPES[metadata.format ?? 'png'] ?? 'application/octet-stream'
+  const query = database.prepare(
+    'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?'
+  )
+
+  return {
+    zoomRange:
+      metadata.minzoom !== undefined && metadata.maxzoom !== undefined
+        ? { min: Number(metadata.minzoom), max: Number(metadata.maxzoom) }
+        : null,
+    read(z, x, y) {
+      const row = query.get(z, x, 2 ** z - 1 - y)
+      const data = row?.tile_data
+      return data instanceof Uint8Array ? { data, contentType } : null
+    },
+  }
+}
+
+/**
+ * Vite plugin serving local tiles
+ *
+ * @param options - Tile source, attribution and URL path
+ */
+export function localTiles(options: LocalTilesOptions = {}): Plugin {
+  const route = options.route ?? '/local-tiles'
+  let sourcePromise: Promise<TileSource> | null = null
+
+  const openSource = (source: string): Promise<TileSource> => {
+    if (!sourcePromise) {
+      const resolved = path.resolve(source)
+      sourcePromise = resolved.toLowerCase().endsWith('.mbtiles')
+        ? openMbtiles(resolved)
+        : Promise.resolve().then(() => openDirectory(resolved))
+    }
+    return sourcePromise
+  }
+
+  const serveTile: Connect.NextHandleFunction = async (req, res, next) => {
+    const match = TILE_PATH.exec(req.url?.split('?')[0] ?? '')
+    if (!match || !options.source) {
+      next()
+      return
+    }
+
+    try {
+      const source = await openSource(options.source)
+      const tile = source.read(Number(match[1]), Number(match[2]), Number(match[3]))
+      if (!tile) {
+        res.statusCode = 404
+        res.end()
+        return
+      }
+
+      res.setHeader('Content-Type', tile.contentType)
+      res.setHeader('Cache-Control', 'public, max-age=86400')
+      res.end(tile.data)
+    } catch (err) {
+      res.statusCode = 500
+      res.end(err instanceof Error ? err.message : 'Local tile server error')
+    }
+  }
+
+  return {
+    name: 'local-tiles',
+
+    // Open the source up front (fails fast on a bad path) and pass its details to the app
+    async config() {
+      if (!options.source) return
+
+      const { zoomRange } = await openSource(options.source)
+      const env: Record<string, string> = {
+        VITE_LOCAL_TILES_URL: `${route}/{z}/{x}/{y}`,
+      }
+      if (options.attribution) env.VITE_LOCAL_TILES_ATTRIBUTION = options.attribution
+      if (zoomRange) {
+        env.VITE_LOCAL_TILES_MIN_ZOOM = String(zoomRange.min)
+        env.VITE_LOCAL_TILES_MAX_ZOOM = String(zoomRange.max)
+      }
+
+      return {
+        define: Object.fromEntries(
+          Object.entries(env).map(([key, value]) => [
+            `import.meta.env.${key}`,
+            JSON.stringify(value),
+          ])
+        ),
+      }
+    },
+
+    configureServer(server) {
+      server.middlewares.use(route, serveTile)
+    },
+
+    configurePreviewServer(server) {
+      server.middlewares.use(route, serveTile)
+    },
+  }
+}
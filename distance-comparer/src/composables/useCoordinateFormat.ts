@@ -0,0 +1,472 @@
+/**
+ * Coordinate Format Composable
+ * Parses typed coordinates (decimal degrees, DMS, UTM, MGRS) and formats
+ * coordinates in the user's chosen notation
+ * UTM/MGRS use the WGS84 transverse Mercator series (sub-metre within a zone)
+ */
+
+import { ref } from 'vue'
+import type { Coordinate, CoordinateFormat } from '../types/map.types'
+import { useGeodesic } from './useGeodesic'
+import {
+  COORDINATE_FORMAT_OPTIONS,
+  COORDINATE_FORMAT_STORAGE_KEY,
+  DEFAULT_COORDINATE_FORMAT,
+} from '../config/map.config'
+
+// WGS84 ellipsoid and UTM projection constants
+const WGS84_A = 6378137
+const WGS84_F = 1 / 298.257223563
+const E2 = WGS84_F * (2 - WGS84_F) // First eccentricity squared
+const EP2 = E2 / (1 - E2) // Second eccentricity squared
+const UTM_SCALE = 0.9996
+const UTM_FALSE_EASTING = 500000
+const UTM_FALSE_NORTHING_SOUTH = 10000000
+const UTM_MIN_LAT = -80
+const UTM_MAX_LAT = 84
+
+// Latitude bands (8° each, X is 12°) and MGRS 100 km square letters
+const LATITUDE_BANDS = 'CDEFGHJKLMNPQRSTUVWX'
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ']
+const MGRS_ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV'
+const MGRS_SQUARE_METERS = 100000
+const MGRS_ROW_CYCLE_METERS = 2000000
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180
+const toDegrees = (rad: number): number => (rad * 180) / Math.PI
+
+/**
+ * Position in a UTM zone
+ */
+export interface UtmPosition {
+  zone: number
+  band: string
+  easting: number
+  northing: number
+}
+
+// Own keys only: `in` would also accept inherited names such as "toString"
+const COORDINATE_FORMATS = Object.keys(COORDINATE_FORMAT_OPTIONS) as CoordinateFormat[]
+
+/**
+ * Read remembered coordinate notation from local storage (falls back to default)
+ */
+function loadCoordinateFormat(): CoordinateFormat {
+  try {
+    const stored = localStorage.getItem(COORDINATE_FORMAT_STORAGE_KEY)
+    if (stored && COORDINATE_FORMATS.includes(stored as CoordinateFormat)) {
+      return stored as CoordinateFormat
+    }
+  } catch {
+    // Storage unavailable - use default
+  }
+  return DEFAULT_COORDINATE_FORMAT
+}
+
+// Shared so every coordinate field shows the same notation
+const coordinateFormat = ref<CoordinateFormat>(loadCoordinateFormat())
+
+/**
+ * Meridian arc length from the equator to a latitude
+ */
+function meridianArc(phi: number): number {
+  const e4 = E2 * E2
+  const e6 = e4 * E2
+  return (
+    WGS84_A *
+    ((1 - E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+      ((3 * E2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+      ((35 * e6) / 3072) * Math.sin(6 * phi))
+  )
+}
+
+/**
+ * UTM zone for a position, including the Norway and Svalbard exceptions
+ */
+function getUtmZone(lat: number, lng: number): number {
+  const normalizedLng = lng >= 180 ? lng - 360 : lng
+  if (lat >= 56 && lat < 64 && normalizedLng >= 3 && normalizedLng < 12) return 32
+  if (lat >= 72 && lat < 84) {
+    if (normalizedLng >= 0 && normalizedLng < 9) return 31
+    if (normalizedLng >= 9 && normalizedLng < 21) return 33
+    if (normalizedLng >= 21 && normalizedLng < 33) return 35
+    if (normalizedLng >= 33 && normalizedLng < 42) return 37
+  }
+  return Math.min(60, Math.floor((normalizedLng + 180) / 6) + 1)
+}
+
+/**
+ * Latitude band letter (C..X) for a latitude within UTM coverage
+ */
+function getLatitudeBand(lat: number): string {
+  const index = Math.min(LATITUDE_BANDS.length - 1, Math.floor((lat - UTM_MIN_LAT) / 8))
+  return LATITUDE_BANDS[index]!
+}
+
+/**
+ * Project a coordinate into a given UTM zone
+ */
+function projectUtm(coord: Coordinate, zone: number): { easting: number; northing: number } {
+  const phi = toRadians(coord.lat)
+  const lambda0 = toRadians((zone - 1) * 6 - 180 + 3)
+  const sinPhi = Math.sin(phi)
+  const cosPhi = Math.cos(phi)
+  const tanPhi = Math.tan(phi)
+
+  const n = WGS84_A / Math.sqrt(1 - E2 * sinPhi * sinPhi)
+  const t = tanPhi * tanPhi
+  const c = EP2 * cosPhi * cosPhi
+  let dLambda = toRadians(coord.lng) - lambda0
+  dLambda = Math.atan2(Math.sin(dLambda), Math.cos(dLambda))
+  const a = cosPhi * dLambda
+
+  const easting =
+    UTM_SCALE *
+      n *
+      (a +
+        ((1 - t + c) * a ** 3) / 6 +
+        ((5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5) / 120) +
+    UTM_FALSE_EASTING
+
+  let northing =
+    UTM_SCALE *
+    (meridianArc(phi) +
+      n *
+        tanPhi *
+        ((a * a) / 2 +
+          ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+          ((61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6) / 720))
+
+  if (coord.lat < 0) {
+    northing += UTM_FALSE_NORTHING_SOUTH
+  }
+
+  return { easting, northing }
+}
+
+/**
+ * Composable for parsing and formatting coordinates in several notations
+ */
+export function useCoordinateFormat() {
+  const { isValidCoordinate } = useGeodesic()
+
+  /**
+   * Set the notation used to display coordinates and remember it
+   */
+  function setCoordinateFormat(format: CoordinateFormat): void {
+    coordinateFormat.value = format
+    try {
+      localStorage.setItem(COORDINATE_FORMAT_STORAGE_KEY, format)
+    } catch {
+      // Storage unavailable - selection still applies to this page
+    }
+  }
+
+  /**
+   * Convert a coordinate to UTM
+   *
+   * @param coord - Coordinate (latitude -80..84)
+   * @returns Zone, band, easting and northing, or null outside UTM coverage
+   */
+  function toUtm(coord: Coordinate): UtmPosition | null {
+    if (!isValidCoordinate(coord) || coord.lat < UTM_MIN_LAT || coord.lat > UTM_MAX_LAT) {
+      return null
+    }
+
+    const zone = getUtmZone(coord.lat, coord.lng)
+    return { zone, band: getLatitudeBand(coord.lat), ...projectUtm(coord, zone) }
+  }
+
+  /**
+   * Convert a UTM position to a coordinate
+   * The band letter only selects the hemisphere (N and above: northern)
+   *
+   * @returns Coordinate, or null for an invalid zone/band
+   */
+  function fromUtm(position: UtmPosition): Coordinate | null {
+    const { zone, easting, northing } = position
+    const band = position.band.toUpperCase()
+    if (zone < 1 || zone > 60 || !LATITUDE_BANDS.includes(band)) return null
+
+    const x = easting - UTM_FALSE_EASTING
+    const y = band < 'N' ? northing - UTM_FALSE_NORTHING_SOUTH : northing
+    const lambda0 = toRadians((zone - 1) * 6 - 180 + 3)
+
+    const e4 = E2 * E2
+    const e6 = e4 * E2
+    const mu = y / UTM_SCALE / (WGS84_A * (1 - E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256))
+    const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2))
+
+    const phi1 =
+      mu +
+      ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+      ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+      ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+      ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu)
+
+    const sinPhi1 = Math.sin(phi1)
+    const cosPhi1 = Math.cos(phi1)
+    const tanPhi1 = Math.tan(phi1)
+    const n1 = WGS84_A / Math.sqrt(1 - E2 * sinPhi1 * sinPhi1)
+    const t1 = tanPhi1 * tanPhi1
+    const c1 = EP2 * cosPhi1 * cosPhi1
+    const r1 = (WGS84_A * (1 - E2)) / Math.pow(1 - E2 * sinPhi1 * sinPhi1, 1.5)
+    const d = x / (n1 * UTM_SCALE)
+
+    const phi =
+      phi1 -
+      ((n1 * tanPhi1) / r1) *
+        ((d * d) / 2 -
+          ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4) / 24 +
+          ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6) / 720)
+
+    const lambda =
+      lambda0 +
+      (d -
+        ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+        ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5) / 120) /
+        cosPhi1
+
+    const coord = { lat: toDegrees(phi), lng: ((toDegrees(lambda) + 540) % 360) - 180 }
+    return isValidCoordinate(coord) ? coord : null
+  }
+
+  /**
+   * Convert a coordinate to an MGRS reference (1 m precision)
+   *
+   * @returns Reference such as "31U DQ 48251 11932", or null outside UTM coverage
+   */
+  function toMgrs(coord: Coordinate): string | null {
+    const utm = toUtm(coord)
+    if (!utm) return null
+
+    const easting = Math.floor(utm.easting)
+    const northing = Math.floor(utm.northing)
+    const columnSet = MGRS_COLUMN_SETS[(utm.zone - 1) % 3]!
+    const column = columnSet[Math.floor(easting / MGRS_SQUARE_METERS) - 1]
+    const rowOffset = utm.zone % 2 === 0 ? 5 : 0
+    const row =
+      MGRS_ROW_LETTERS[
+        (Math.floor(northing / MGRS_SQUARE_METERS) + rowOffset) % MGRS_ROW_LETTERS.length
+      ]
+    if (!column || !row) return null
+
+    const pad = (value: number) => String(value % MGRS_SQUARE_METERS).padStart(5, '0')
+    return `${utm.zone}${utm.band} ${column}${row} ${pad(easting)} ${pad(northing)}`
+  }
+
+  /**
+   * Convert an MGRS reference to a coordinate (south-west corner of the cell)
+   *
+   * @returns Coordinate, or null if the reference is malformed
+   */
+  function fromMgrs(reference: string): Coordinate | null {
+    const match = reference
+      .trim()
+      .toUpperCase()
+      .match(/^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d*)\s*(\d*)$/)
+    if (!match) return null
+
+    const [, zoneText, band, column, row, first = '', second = ''] = match
+    const zone = Number(zoneText)
+    if (zone < 1 || zone > 60) return null
+
+    // Digits either as two groups of equal length or one even-length run
+    const half = first.length / 2
+    const digits = second ? [first, second] : [first.slice(0, half), first.slice(half)]
+    if (digits[0]!.length !== digits[1]!.length || digits[0]!.length > 5) return null
+    const scale = 10 ** (5 - digits[0]!.length)
+    const offsetEasting = digits[0] ? Number(digits[0]) * scale : 0
+    const offsetNorthing = digits[1] ? Number(digits[1]) * scale : 0
+
+    const columnIndex = MGRS_COLUMN_SETS[(zone - 1) % 3]!.indexOf(column!)
+    if (columnIndex < 0) return null
+    const easting = (columnIndex + 1) * MGRS_SQUARE_METERS + offsetEasting
+
+    // Row letters repeat every 2000 km: pick the cycle that falls in the band
+    const rowOffset = zone % 2 === 0 ? 5 : 0
+    const rowIndex =
+      (MGRS_ROW_LETTERS.indexOf(row!) - rowOffset + MGRS_ROW_LETTERS.length) %
+      MGRS_ROW_LETTERS.length
+    const bandBottom = UTM_MIN_LAT + LATITUDE_BANDS.indexOf(band!) * 8
+    const bandNorthing = projectUtm(
+      { lat: bandBottom, lng: (zone - 1) * 6 - 180 + 3 },
+      zone
+    ).northing
+    let northing =
+      Math.floor(bandNorthing / MGRS_ROW_CYCLE_METERS) * MGRS_ROW_CYCLE_METERS +
+      rowIndex * MGRS_SQUARE_METERS +
+      offsetNorthing
+    if (northing < bandNorthing - MGRS_SQUARE_METERS) {
+      northing += MGRS_ROW_CYCLE_METERS
+    }
+
+    return fromUtm({ zone, band: band!, easting, northing })
+  }
+
+  /**
+   * Parse a coordinate typed in any supported notation
+   * - Decimal degrees: "52.37, 4.89", "52.37N 4.89E", "-33.9; 151.2"
+   * - Degrees/minutes/seconds: "52°22'12\"N 4°53'24\"E", "52 22 12 N, 4 53 24 E"
+   * - UTM: "31U 628000 5804000"
+   * - MGRS: "31U FU 28000 04000", "31UFU2800004000"
+   * Without hemisphere letters the order is latitude, longitude
+   *
+   * @returns Valid coordinate, or null if the text cannot be understood
+   */
+  function parseCoordinate(text: string): Coordinate | null {
+    const input = text.trim().toUpperCase()
+    if (!input) return null
+
+    const utmMatch = input.match(
+      /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*M?\s*E?\s+(\d+(?:\.\d+)?)\s*M?\s*N?$/
+    )
+    if (utmMatch) {
+      return fromUtm({
+        zone: Number(utmMatch[1]),
+        band: utmMatch[2]!,
+        easting: Number(utmMatch[3]),
+        northing: Number(utmMatch[4]),
+      })
+    }
+
+    if (/^\d{1,2}\s*[C-HJ-NP-X]\s*[A-Z]{2}/.test(input)) {
+      return fromMgrs(input)
+    }
+
+    return parseLatLng(input)
+  }
+
+  /**
+   * Parse a latitude/longitude pair in decimal degrees or DMS
+   */
+  function parseLatLng(input: string): Coordinate | null {
+    const parts = splitLatLng(input)
+    if (!parts) return null
+
+    const angles = parts.map(parseAngle)
+    if (angles.some((angle) => angle === null)) return null
+    const [first, second] = angles as { value: number; hemisphere: string | null }[]
+
+    // Hemisphere letters decide which value is which; otherwise latitude comes first
+    const isLatitude = (h: string | null) => h === 'N' || h === 'S'
+    const isLongitude = (h: string | null) => h === 'E' || h === 'W'
+    const [latAngle, lngAngle] =
+      isLongitude(first!.hemisphere) || isLatitude(second!.hemisphere)
+        ? [second!, first!]
+        : [first!, second!]
+    if (isLongitude(latAngle.hemisphere) || isLatitude(lngAngle.hemisphere)) return null
+
+    const coord = { lat: latAngle.value, lng: lngAngle.value }
+    return isValidCoordinate(coord) ? coord : null
+  }
+
+  /**
+   * Split typed text into its latitude and longitude halves
+   * Separators: ";" (decimal commas allowed), ",", hemisphere letters, or the
+   * number count (2 decimal, 4 degrees+minutes, 6 degrees+minutes+seconds)
+   */
+  function splitLatLng(input: string): [string, string] | null {
+    const pair = (parts: string[]): [string, string] | null =>
+      parts.length === 2 && parts.every((part) => part.trim()) ? [parts[0]!, parts[1]!] : null
+
+    if (input.includes(';')) {
+      return pair(input.replace(/,/g, '.').split(';'))
+    }
+    if (input.includes(',')) {
+      return pair(input.split(','))
+    }
+
+    const letters = [...input.matchAll(/[NSEW]/g)]
+    if (letters.length === 2) {
+      // Letters lead ("N52 E4") or trail ("52N 4E") their values
+      const splitAt = /^[NSEW]/.test(input) ? letters[1]!.index! : letters[0]!.index! + 1
+      return pair([input.slice(0, splitAt), input.slice(splitAt)])
+    }
+    if (letters.length > 0) return null
+
+    const numbers = input.match(/-?\d+(?:\.\d+)?/g) ?? []
+    if (![2, 4, 6].includes(numbers.length)) return null
+    const half = numbers.length / 2
+    return [numbers.slice(0, half).join(' '), numbers.slice(half).join(' ')]
+  }
+
+  /**
+   * Parse one angle: decimal degrees or degrees/minutes/seconds with an
+   * optional leading or trailing hemisphere letter
+   */
+  function parseAngle(text: string): { value: number; hemisphere: string | null } | null {
+    const trimmed = text.trim()
+    const hemisphereMatch = trimmed.match(/^([NSEW])|([NSEW])$/)
+    const hemisphere = hemisphereMatch ? (hemisphereMatch[1] ?? hemisphereMatch[2])! : null
+
+    const body = trimmed.replace(/^[NSEW]|[NSEW]$/g, '').replace(/[°º˚'′’"″”]/g, ' ').trim()
+    if (!/^-?\d+(?:\.\d+)?(?:\s+\d+(?:\.\d+)?){0,2}$/.test(body)) return null
+
+    const [degrees, minutes = 0, seconds = 0] = body.split(/\s+/).map(Number)
+    if (minutes >= 60 || seconds >= 60) return null
+
+    const sign = degrees! < 0 || Object.is(degrees, -0) ? -1 : 1
+    if (sign < 0 && hemisphere) return null
+
+    const magnitude = Math.abs(degrees!) + minutes / 60 + seconds / 3600
+    const negative = sign < 0 || hemisphere === 'S' || hemisphere === 'W'
+    return { value: negative ? -magnitude : magnitude, hemisphere }
+  }
+
+  /**
+   * Format a coordinate in the given notation (defaults to the selected one)
+   * Decimal degrees always use "." so the text can be typed back in
+   *
+   * @returns Formatted text; UTM/MGRS outside their coverage fall back to decimal
+   */
+  function formatCoordinate(
+    coord: Coordinate,
+    format: CoordinateFormat = coordinateFormat.value
+  ): string {
+    switch (format) {
+      case 'dms':
+        return `${formatDms(coord.lat, 'N', 'S')} ${formatDms(coord.lng, 'E', 'W')}`
+      case 'utm': {
+        const utm = toUtm(coord)
+        if (utm) {
+          return `${utm.zone}${utm.band} ${Math.round(utm.easting)} ${Math.round(utm.northing)}`
+        }
+        break
+      }
+      case 'mgrs': {
+        const mgrs = toMgrs(coord)
+        if (mgrs) return mgrs
+        break
+      }
+    }
+    return `${coord.lat.toFixed(6)}, ${coord.lng.toFixed(6)}`
+  }
+
+  return {
+    // State
+    coordinateFormat,
+
+    // Methods
+    setCoordinateFormat,
+    parseCoordinate,
+    formatCoordinate,
+    toUtm,
+    fromUtm,
+    toMgrs,
+    fromMgrs,
+  }
+}
+
+/**
+ * Format one angle as degrees, minutes and seconds with a hemisphere letter
+ */
+function formatDms(value: number, positive: string, negative: string): string {
+  const totalSeconds = Math.round(Math.abs(value) * 36000) / 10
+  const degrees = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds - degrees * 3600) / 60)
+  const seconds = totalSeconds - degrees * 3600 - minutes * 60
+  const hemisphere = value < 0 ? negative : positive
+  return `${degrees}°${String(minutes).padStart(2, '0')}′${seconds.toFixed(1).padStart(4, '0')}″${hemisphere}`
+}
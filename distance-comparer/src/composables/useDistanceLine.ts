@@ -1,19 +1,37 @@
 /**
  * Distance Line State Management Composable
  * T010, T012, T013, T017, T022: Line state, rendering, distance calculation, single-line constraint
+ * Multi-segment paths: vertex list, per-vertex updates, summed geodesic length
+ * Right map: transplanted geometry re-projected as a rigid shape around its anchor,
+ * rotating around a selectable pivot (start, end or midpoint)
+ * Closed polygons: perimeter, geodesic area and filled rendering
+ * On-map label at the path midpoint (distance; bearing on the right map)
  * Based on quickstart.md Phase 3
  */
 
-import { ref, computed, shallowRef } from 'vue'
+import { ref, computed, shallowRef, watch, onUnmounted } from 'vue'
 import type { Ref } from 'vue'
 import L from 'leaflet'
 import type {
   DistanceLine,
   Coordinate,
   LineStyle,
+  PathLeg,
+  RotationPivot,
 } from '../types/map.types'
 import { useGeodesic } from './useGeodesic'
-import { DEFAULT_LINE_STYLE } from '../config/map.config'
+import { useGeodesicPath } from './useGeodesicPath'
+import { usePathShape } from './usePathShape'
+import { usePointerInput } from './usePointerInput'
+import {
+  DEFAULT_LINE_STYLE,
+  DISTANCE_LABEL_CONFIG,
+  LINE_FIT_CONFIG,
+  ROTATION_PIVOT_CONFIG,
+  TOUCH_INPUT_CONFIG,
+  POLYGON_FILL_STYLE,
+  SELECTED_LINE_WEIGHT_BONUS,
+} from '../config/map.config'
 
 export interface UseDistanceLineOptions {
   /** Leaflet map instance */
@@ -30,15 +48,42 @@ export interface UseDistanceLineOptions {
  */
 export function useDistanceLine(options: UseDistanceLineOptions) {
   const { map, side, style: customStyle } = options
-  const { calculateDistance, calculateBearing, formatDistance } = useGeodesic()
+  const {
+    calculateDistance,
+    calculatePathDistance,
+    calculatePolygonPerimeter,
+    calculatePolygonArea,
+    calculateBearing,
+    snapBearing,
+    formatDistance,
+    formatBearing,
+    formatArea,
+    distanceUnit,
+    numberLocale,
+  } = useGeodesic()
+  const { buildPathThrough, buildRingThrough, pointAlongPath, calculateFinalBearing } =
+    useGeodesicPath()
+  const { extractShape, projectShape, projectShapeAround, locateOnShape, getShapeLength } =
+    usePathShape()
+  const { inputMode } = usePointerInput()
 
   // T010: Line state
   const line = ref<DistanceLine | null>(null)
 
+  // Right map: intrinsic shape (leg lengths and turns) of the transplanted geometry
+  const shape = ref<PathLeg[]>([])
+  const isShapeClosed = ref(false)
+
+  // Right map: point that stays fixed while the shape rotates
+  const rotationPivot = ref<RotationPivot>(ROTATION_PIVOT_CONFIG.defaultPivot)
+
   // T012, T013: Leaflet objects (shallowRef to avoid Vue reactivity wrapping)
-  const polyline = shallowRef<L.Polyline | null>(null)
+  const polyline = shallowRef<L.Polyline | L.Polygon | null>(null)
   const startMarker = shallowRef<L.CircleMarker | null>(null)
   const endMarker = shallowRef<L.Marker | null>(null)
+  const vertexMarkers = shallowRef<L.CircleMarker[]>([])
+  const labelMarker = shallowRef<L.Marker | null>(null)
+  const pivotMarker = shallowRef<L.CircleMarker | null>(null)
 
   // Merge custom style with defaults
   const lineStyle: LineStyle = {
@@ -46,8 +91,53 @@ export function useDistanceLine(options: UseDistanceLineOptions) {
     ...customStyle,
   }
 
+  // Display state (line manager: hide/show and selection highlight)
+  const visible = ref(true)
+  const highlighted = ref(false)
+
+  // Imported tracks (left map): full-resolution points of each leg (vertex i to
+  // i + 1) and their length, so simplified tracks keep their true length
+  // Tracks from a shared link only know each leg's length: their straight legs
+  // are stretched by `scale` to match it
+  // A leg becomes straight once one of its ends is dragged
+  // Kept out of Vue reactivity: tracks can hold many thousands of points
+  let trackLegs: Array<{ points: Coordinate[]; scale: number; distanceMeters: number }> | null =
+    null
+
+  /**
+   * All vertices of a line (two-point lines yield [start, end])
+   */
+  function getVertices(target: DistanceLine): Coordinate[] {
+    return target.vertices ?? [target.startPoint, target.endPoint]
+  }
+
   // Computed properties
   const isVisible = computed(() => line.value !== null)
+  const isPath = computed(() => (line.value?.vertices?.length ?? 0) > 2)
+  const isPolygon = computed(() => line.value?.closed === true)
+  const areaDisplay = computed(() => {
+    if (line.value?.areaSquareMeters === undefined) return ''
+    return formatArea(line.value.areaSquareMeters)
+  })
+
+  /**
+   * Length (path sum or polygon perimeter) and area of a vertex list
+   */
+  function measure(
+    vertices: Coordinate[],
+    closed: boolean
+  ): { distanceMeters: number; areaSquareMeters?: number } {
+    if (!closed && trackLegs?.length === vertices.length - 1) {
+      return { distanceMeters: trackLegs.reduce((sum, leg) => sum + leg.distanceMeters, 0) }
+    }
+    if (!closed) {
+      return { distanceMeters: calculatePathDistance(vertices) }
+    }
+    return {
+      distanceMeters: calculatePolygonPerimeter(vertices),
+      areaSquareMeters: calculatePolygonArea(vertices),
+    }
+  }
   const distanceMeters = computed(() => line.value?.distanceMeters ?? 0)
   const distanceDisplay = computed(() => {
     if (!line.value) return ''
@@ -60,17 +150,46 @@ export function useDistanceLine(options: UseDistanceLineOptions) {
     return line.value.distanceMeters < 1 // Less than 1 meter considered zero-length
   })
 
+  // Bumped whenever the map moves or resizes (Leaflet views are not reactive)
+  const viewportVersion = ref(0)
+
   // T058: Check if line extends beyond current viewport
   const isOutsideViewport = computed(() => {
-    if (!line.value || !map.value) return false
-    
-    const bounds = map.value.getBounds()
-    const startInView = bounds.contains([line.value.startPoint.lat, line.value.startPoint.lng])
-    const endInView = bounds.contains([line.value.endPoint.lat, line.value.endPoint.lng])
-    
-    // Line is outside if both endpoints are out of view
-    // (Partial visibility is acceptable)
-    return !startInView && !endInView
+    void viewportVersion.value
+    const lineBounds = getLineBounds()
+    if (!lineBounds || !map.value) return false
+
+    // Line is outside if none of it is in view (partial visibility is acceptable)
+    return !map.value.getBounds().intersects(lineBounds)
+  })
+
+  // Off-screen indicator: arrow on the map edge pointing toward the line
+  const offscreenIndicator = computed(() => {
+    if (!isOutsideViewport.value || !map.value) return null
+
+    const lineBounds = getLineBounds()
+    if (!lineBounds) return null
+
+    const size = map.value.getSize()
+    const center = size.divideBy(2)
+    const target = map.value.latLngToContainerPoint(lineBounds.getCenter())
+    const dx = target.x - center.x
+    const dy = target.y - center.y
+    if (dx === 0 && dy === 0) return null
+
+    // Where the ray from the map centre leaves the inset map rectangle
+    const inset = LINE_FIT_CONFIG.indicatorInset
+    const scale = Math.min(
+      dx !== 0 ? Math.max(center.x - inset, 0) / Math.abs(dx) : Infinity,
+      dy !== 0 ? Math.max(center.y - inset, 0) / Math.abs(dy) : Infinity
+    )
+
+    return {
+      x: center.x + dx * scale,
+      y: center.y + dy * scale,
+      /** Screen angle in degrees, clockwise from pointing right */
+      angle: (Math.atan2(dy, dx) * 180) / Math.PI,
+    }
   })
 
   /**
@@ -108,45 +227,164 @@ export function useDistanceLine(options: UseDistanceLineOptions) {
   }
 
   /**
-   * T010: Update line endpoint and recalculate distance
-   * For right map: maintains locked distance, only updates bearing
+   * Legs of an imported track: its full-resolution points when known, otherwise
+   * straight legs stretched to their recorded length (null for drawn paths)
    */
-  function updateEndpoint(
-    endpointType: 'start' | 'end',
-    newPosition: Coordinate
+  function buildTrackLegs(
+    vertices: Coordinate[],
+    segments?: Coordinate[][],
+    legLengths?: number[]
+  ): typeof trackLegs {
+    const legCount = vertices.length - 1
+    const knownSegments = segments?.length === legCount ? segments : null
+    const knownLengths = legLengths?.length === legCount ? legLengths : null
+    if (!knownSegments && !knownLengths) return null
+
+    return vertices.slice(1).map((end, index) => {
+      const points = knownSegments?.[index] ?? [vertices[index]!, end]
+      const measured = calculatePathDistance(points)
+      const length = knownLengths?.[index] ?? measured
+      const scale = measured > 0 ? length / measured : 1
+      return { points, scale, distanceMeters: measured * scale }
+    })
+  }
+
+  /**
+   * Create a multi-segment path from an ordered list of vertices
+   * Distance is the sum of the geodesic length of every segment
+   * T022: Single-line constraint - clears existing line before creating new one
+   */
+  function createPath(
+    vertices: Coordinate[],
+    segments?: Coordinate[][],
+    legLengths?: number[]
+  ): DistanceLine {
+    if (line.value) {
+      clearLine()
+    }
+
+    trackLegs = buildTrackLegs(vertices, segments, legLengths)
+
+    const distance = measure(vertices, false).distanceMeters
+
+    if (distance < 1) {
+      console.warn('[DistanceLine] Creating zero-length path (< 1m).')
+    }
+
+    const newLine: DistanceLine = {
+      id: `line-${side}-${Date.now()}`,
+      startPoint: vertices[0]!,
+      endPoint: vertices[vertices.length - 1]!,
+      vertices: [...vertices],
+      distanceMeters: distance,
+    }
+
+    line.value = newLine
+    renderLine()
+
+    return newLine
+  }
+
+  /**
+   * Create a closed polygon from its ring vertices (first vertex not repeated)
+   * distanceMeters holds the perimeter; areaSquareMeters the geodesic area
+   * T022: Single-line constraint - clears existing line before creating new one
+   */
+  function createPolygon(vertices: Coordinate[]): DistanceLine {
+    if (line.value) {
+      clearLine()
+    }
+
+    const newLine: DistanceLine = {
+      id: `line-${side}-${Date.now()}`,
+      startPoint: vertices[0]!,
+      endPoint: vertices[vertices.length - 1]!,
+      vertices: [...vertices],
+      closed: true,
+      ...measure(vertices, true),
+    }
+
+    line.value = newLine
+    renderLine()
+
+    return newLine
+  }
+
+  /**
+   * Move a single path vertex and recalculate total distance
+   * Index 0 and the last index keep startPoint/endPoint in sync
+   * Right map: the shape is rigid; the handle at the pivot moves it, any other
+   * vertex rotates it around the pivot (optionally snapping the line bearing to
+   * multiples of snapStep degrees)
+   */
+  function updateVertex(
+    index: number,
+    newPosition: Coordinate,
+    snapStep: number | null = null
   ): void {
     if (!line.value) return
 
-    // Right map: maintain locked distance, update bearing
     if (side === 'right') {
-      const lockedDistance = line.value.distanceMeters
-      const { calculateDestinationPoint } = useGeodesic()
-
-      if (endpointType === 'start') {
-        // Dragging start point: lock bearing, move start, recalculate end at locked distance
-        const lockedBearing = line.value.bearing ?? 0
-        line.value.startPoint = newPosition
-        
-        // Recalculate end point at locked distance and locked bearing from new start
-        line.value.endPoint = calculateDestinationPoint(
-          newPosition,
-          lockedDistance,
-          lockedBearing
-        )
+      if (index === getPivotHandleIndex()) {
+        moveHandleTo(index, newPosition)
       } else {
-        // Dragging end point: keep start, calculate bearing to new position, snap to locked distance
-        const bearing = calculateBearing(line.value.startPoint, newPosition)
-        line.value.bearing = bearing
-        
-        // Snap end point to locked distance from start
-        line.value.endPoint = calculateDestinationPoint(
-          line.value.startPoint,
-          lockedDistance,
-          bearing
-        )
+        rotateHandleToward(index, newPosition, snapStep)
       }
+      return
+    }
 
-      renderLine()
+    const vertices = [...getVertices(line.value)]
+    if (index < 0 || index >= vertices.length) return
+
+    vertices[index] = newPosition
+
+    // Dragged vertex: its adjoining track legs become straight
+    if (trackLegs) {
+      trackLegs = trackLegs.map((leg, legIndex) => {
+        if (legIndex !== index - 1 && legIndex !== index) return leg
+        const points = [vertices[legIndex]!, vertices[legIndex + 1]!]
+        return { points, scale: 1, distanceMeters: calculatePathDistance(points) }
+      })
+    }
+
+    if (line.value.vertices) {
+      line.value.vertices = vertices
+    }
+    line.value.startPoint = vertices[0]!
+    line.value.endPoint = vertices[vertices.length - 1]!
+    Object.assign(line.value, measure(vertices, line.value.closed === true))
+
+    renderLine()
+  }
+
+  /**
+   * T010: Update line endpoint and recalculate distance
+   * For right map: maintains locked distance, moves or rotates the shape
+   * (snapStep snaps the bearing when the handle rotates it)
+   */
+  function updateEndpoint(
+    endpointType: 'start' | 'end',
+    newPosition: Coordinate,
+    snapStep: number | null = null
+  ): void {
+    if (!line.value) return
+
+    // Left map paths: endpoints are the first/last vertex
+    if (side === 'left' && line.value.vertices) {
+      updateVertex(
+        endpointType === 'start' ? 0 : line.value.vertices.length - 1,
+        newPosition
+      )
+      return
+    }
+
+    // Right map: maintain locked shape; the endpoints are the first/last vertex
+    if (side === 'right') {
+      updateVertex(
+        endpointType === 'start' ? 0 : getVertices(line.value).length - 1,
+        newPosition,
+        snapStep
+      )
       return
     }
 
@@ -169,7 +407,71 @@ export function useDistanceLine(options: UseDistanceLineOptions) {
   }
 
   /**
-   * T012: Render Leaflet polyline
+   * Geodesic path for the current line, densified for the current zoom
+   */
+  function getRenderedPath(): [number, number][][] {
+    if (!map.value || !line.value) return []
+    if (line.value.closed) {
+      return [buildRingThrough(getVertices(line.value), map.value.getZoom())]
+    }
+    return buildPathThrough(getVertices(line.value), map.value.getZoom())
+  }
+
+  /**
+   * Re-densify the polyline when zoom changes (markers stay untouched)
+   */
+  function handleZoomEnd(): void {
+    if (!polyline.value) return
+    polyline.value.setLatLngs(getRenderedPath())
+  }
+
+  const handleViewportChange = (): void => {
+    viewportVersion.value++
+  }
+
+  watch(
+    map,
+    (newMap, oldMap) => {
+      oldMap?.off('zoomend', handleZoomEnd)
+      oldMap?.off('moveend resize', handleViewportChange)
+      newMap?.on('zoomend', handleZoomEnd)
+      newMap?.on('moveend resize', handleViewportChange)
+    },
+    { immediate: true }
+  )
+
+  onUnmounted(() => {
+    map.value?.off('zoomend', handleZoomEnd)
+    map.value?.off('moveend resize', handleViewportChange)
+  })
+
+  /**
+   * Geographic extent of the drawn line (geodesic arcs included)
+   */
+  function getLineBounds(): L.LatLngBounds | null {
+    const points = getRenderedPath().flat()
+    return points.length > 0 ? L.latLngBounds(points) : null
+  }
+
+  /**
+   * Zoom and pan the map so the whole line is in view
+   * With `ifNeeded`, a line that already fits is left where it is
+   */
+  function fitLine(options?: { ifNeeded?: boolean; animate?: boolean }): void {
+    const lineBounds = getLineBounds()
+    if (!map.value || !lineBounds) return
+
+    if (options?.ifNeeded && map.value.getBounds().contains(lineBounds)) return
+
+    map.value.fitBounds(lineBounds, {
+      padding: [LINE_FIT_CONFIG.padding, LINE_FIT_CONFIG.padding],
+      maxZoom: Math.min(LINE_FIT_CONFIG.maxZoom, map.value.getMaxZoom()),
+      animate: options?.animate ?? true,
+    })
+  }
+
+  /**
+   * T012: Render Leaflet polyline as a densified great-circle arc
    * T013: Render CircleMarker endpoints with fixed lat/lng
    */
   function renderLine(): void {
@@ -180,53 +482,189 @@ export function useDistanceLine(options: UseDistanceLineOptions) {
     // Remove existing layers
     cleanupLayers()
 
-    // T012: Create polyline connecting the two points
-    polyline.value = L.polyline(
-      [
-        [startPoint.lat, startPoint.lng],
-        [endPoint.lat, endPoint.lng],
-      ],
-      {
-        color: lineStyle.color,
-        weight: lineStyle.weight,
-        opacity: lineStyle.opacity,
-        dashArray: lineStyle.dashArray,
-      }
-    ).addTo(map.value)
+    // Hidden lines keep their state but draw nothing
+    if (!visible.value) return
+
+    const pathOptions: L.PolylineOptions = {
+      color: lineStyle.color,
+      weight: getLineWeight(),
+      opacity: lineStyle.opacity,
+      dashArray: lineStyle.dashArray,
+    }
+
+    // T012: Create polyline following the geodesic between the two points
+    // (split into parts where it crosses the antimeridian); closed rings are filled
+    polyline.value = line.value.closed
+      ? L.polygon(getRenderedPath(), {
+          ...pathOptions,
+          fillColor: lineStyle.color,
+          fillOpacity: POLYGON_FILL_STYLE.fillOpacity,
+        }).addTo(map.value)
+      : L.polyline(getRenderedPath(), pathOptions).addTo(map.value)
+
+    // Finger-sized handles when the user is on a touch screen
+    const handleScale = inputMode.value === 'touch' ? TOUCH_INPUT_CONFIG.handleScale : 1
 
     // T013: Create endpoint markers anchored to geographic coordinates
     // Start marker: circle to indicate starting point
     startMarker.value = L.circleMarker([startPoint.lat, startPoint.lng], {
-      radius: lineStyle.endpointRadius,
+      radius: lineStyle.endpointRadius * handleScale,
       fillColor: lineStyle.endpointFillColor,
       fillOpacity: 1,
       color: lineStyle.endpointBorderColor,
       weight: lineStyle.endpointBorderWeight,
     }).addTo(map.value)
 
-    // End marker: arrow pointing in direction of bearing
-    const { calculateBearing } = useGeodesic()
-    const bearing = calculateBearing(startPoint, endPoint)
+    // Intermediate path vertices: smaller circles
+    const vertices = getVertices(line.value)
+    vertexMarkers.value = vertices.slice(1, -1).map((vertex) =>
+      L.circleMarker([vertex.lat, vertex.lng], {
+        radius: lineStyle.vertexRadius * handleScale,
+        fillColor: lineStyle.endpointFillColor,
+        fillOpacity: 1,
+        color: lineStyle.endpointBorderColor,
+        weight: lineStyle.endpointBorderWeight,
+      }).addTo(map.value!)
+    )
+
+    // End marker: arrow pointing along the final segment's direction of travel
+    const bearing = calculateFinalBearing(vertices[vertices.length - 2]!, endPoint)
+    const arrowSize = Math.round(16 * handleScale)
     
+    // data-* attributes let snapshots redraw the arrow as vector graphics
     const arrowIcon = L.divIcon({
       className: 'arrow-marker',
-      html: `<div style="
+      html: `<div
+        data-bearing="${bearing.toFixed(1)}"
+        data-size="${arrowSize}"
+        data-color="${lineStyle.endpointFillColor}"
+        style="
         width: 0;
         height: 0;
-        border-left: 8px solid transparent;
-        border-right: 8px solid transparent;
-        border-bottom: 16px solid ${lineStyle.endpointFillColor};
+        border-left: ${arrowSize / 2}px solid transparent;
+        border-right: ${arrowSize / 2}px solid transparent;
+        border-bottom: ${arrowSize}px solid ${lineStyle.endpointFillColor};
         transform: rotate(${bearing}deg);
-        transform-origin: center 12px;
+        transform-origin: center ${arrowSize * 0.75}px;
         filter: drop-shadow(0 0 2px rgba(0,0,0,0.3));
       "></div>`,
-      iconSize: [16, 16],
-      iconAnchor: [8, 12],
+      iconSize: [arrowSize, arrowSize],
+      iconAnchor: [arrowSize / 2, arrowSize * 0.75],
     })
 
     endMarker.value = L.marker([endPoint.lat, endPoint.lng], {
       icon: arrowIcon,
     }).addTo(map.value)
+
+    // Midpoint pivot has no handle of its own: mark where the shape turns around
+    if (side === 'right' && rotationPivot.value === 'midpoint' && shape.value.length > 0) {
+      const { point } = locatePivot()
+      pivotMarker.value = L.circleMarker([point.lat, point.lng], {
+        radius: ROTATION_PIVOT_CONFIG.markerRadius * handleScale,
+        fillColor: '#ffffff',
+        fillOpacity: 1,
+        color: lineStyle.color,
+        weight: lineStyle.endpointBorderWeight,
+        interactive: false,
+      }).addTo(map.value)
+    }
+
+    renderLabel()
+  }
+
+  /**
+   * Draw the distance label at the midpoint of the path (perimeter for polygons)
+   * The text runs along the line, flipped as needed so it is never upside down;
+   * Web Mercator is conformal and north-up, so the screen angle is the bearing
+   */
+  function renderLabel(): void {
+    if (labelMarker.value) {
+      map.value?.removeLayer(labelMarker.value)
+      labelMarker.value = null
+    }
+    if (!map.value || !line.value || !visible.value) return
+
+    const vertices = getVertices(line.value)
+    const route = line.value.closed ? [...vertices, vertices[0]!] : vertices
+    const { point, bearing } = pointAlongPath(route, line.value.distanceMeters / 2)
+
+    let angle = bearing - 90
+    if (angle > 90) angle -= 180
+    if (angle <= -90) angle += 180
+
+    const text =
+      side === 'right' && line.value.bearing !== undefined
+        ? `${formatDistance(line.value.distanceMeters)} · ${formatBearing(line.value.bearing)}`
+        : formatDistance(line.value.distanceMeters)
+
+    const labelIcon = L.divIcon({
+      className: 'distance-label-marker',
+      html: `<div
+        data-angle="${angle.toFixed(1)}"
+        data-color="${lineStyle.color}"
+        style="
+        position: absolute;
+        transform: translate(-50%, -50%) rotate(${angle.toFixed(1)}deg) translateY(-${DISTANCE_LABEL_CONFIG.offsetPx}px);
+        padding: 1px 6px;
+        white-space: nowrap;
+        font-size: ${DISTANCE_LABEL_CONFIG.fontSize}px;
+        font-weight: 600;
+        line-height: 1.4;
+        color: #213547;
+        background-color: rgba(255, 255, 255, 0.9);
+        border: 1px solid ${lineStyle.color};
+        border-radius: 10px;
+        box-shadow: 0 1px 3px rgba(0,0,0,0.25);
+        pointer-events: none;
+      ">${text}</div>`,
+      iconSize: [0, 0],
+    })
+
+    labelMarker.value = L.marker([point.lat, point.lng], {
+      icon: labelIcon,
+      interactive: false,
+      keyboard: false,
+    }).addTo(map.value)
+  }
+
+  // Labels follow the app-wide display unit and number format
+  watch([distanceUnit, numberLocale], renderLabel)
+
+  // Handles resize when switching between mouse and touch
+  watch(inputMode, () => renderLine())
+
+  /**
+   * Line weight including the selection highlight
+   */
+  function getLineWeight(): number {
+    return lineStyle.weight + (highlighted.value ? SELECTED_LINE_WEIGHT_BONUS : 0)
+  }
+
+  /**
+   * Show or hide the line without discarding its state
+   */
+  function setVisible(isVisible: boolean): void {
+    visible.value = isVisible
+
+    if (isVisible) {
+      renderLine()
+    } else {
+      cleanupLayers()
+    }
+  }
+
+  /**
+   * Highlight the line (thicker, drawn on top) when it is selected
+   */
+  function setHighlighted(isHighlighted: boolean): void {
+    highlighted.value = isHighlighted
+
+    if (polyline.value) {
+      polyline.value.setStyle({ weight: getLineWeight() })
+      if (isHighlighted) {
+        polyline.value.bringToFront()
+      }
+    }
   }
 
   /**
@@ -236,6 +674,21 @@ export function useDistanceLine(options: UseDistanceLineOptions) {
   function clearLine(): void {
     cleanupLayers()
     line.value = null
+    trackLegs = null
+  }
+
+  /**
+   * Full-resolution points of each leg of an imported track (left map)
+   */
+  function getTrackSegments(): Coordinate[][] | undefined {
+    return trackLegs?.map((leg) => leg.points)
+  }
+
+  /**
+   * Length of each leg of an imported track, measured along its full-resolution points
+   */
+  function getLegDistances(): number[] | undefined {
+    return trackLegs?.map((leg) => leg.distanceMeters)
   }
 
   /**
@@ -256,19 +709,269 @@ export function useDistanceLine(options: UseDistanceLineOptions) {
       map.value.removeLayer(endMarker.value)
       endMarker.value = null
     }
+    vertexMarkers.value.forEach((marker) => map.value!.removeLayer(marker))
+    vertexMarkers.value = []
+    if (pivotMarker.value) {
+      map.value.removeLayer(pivotMarker.value)
+      pivotMarker.value = null
+    }
+    if (labelMarker.value) {
+      map.value.removeLayer(labelMarker.value)
+      labelMarker.value = null
+    }
   }
 
   /**
-   * Update distance for synchronized line (right map)
-   * Preserves bearing while updating distance
-   * Creates line if it doesn't exist yet
+   * Rebuild right-map vertices from anchor, bearing and the locked shape
+   * Every leg keeps its true length and turn angle
    */
-  function updateDistance(newDistanceMeters: number): void {
-    if (side !== 'right' || !map.value) return
+  function reproject(): void {
+    if (!line.value || side !== 'right') return
+
+    applyProjection(
+      projectShape(line.value.startPoint, line.value.bearing ?? 0, shape.value),
+      line.value.bearing ?? 0
+    )
+  }
+
+  /**
+   * Store projected right-map vertices (closing vertex included) as the line
+   * The first vertex becomes the anchor and bearing the first leg's bearing
+   */
+  function applyProjection(projected: Coordinate[], bearing: number): void {
+    if (!line.value) return
+
+    // Closed shapes: the last projected vertex is the closing return to the anchor
+    const vertices = isShapeClosed.value ? projected.slice(0, -1) : projected
+
+    line.value.startPoint = vertices[0]!
+    line.value.bearing = normalizeBearing(bearing)
+    line.value.endPoint = vertices[vertices.length - 1]!
+    line.value.vertices = vertices.length > 2 ? vertices : undefined
+    line.value.distanceMeters = getShapeLength(shape.value)
+    line.value.closed = isShapeClosed.value || undefined
+    line.value.areaSquareMeters = isShapeClosed.value
+      ? calculatePolygonArea(vertices)
+      : undefined
+
+    renderLine()
+  }
+
+  /**
+   * Current right-map vertices including the closing return for closed shapes
+   * (one point per leg end, matching projectShape())
+   */
+  function getProjectedVertices(): Coordinate[] {
+    if (!line.value) return []
+    const vertices = getVertices(line.value)
+    return isShapeClosed.value ? [...vertices, vertices[0]!] : vertices
+  }
+
+  /**
+   * Distance along the shape from the first vertex to the given vertex
+   */
+  function getVertexDistance(index: number): number {
+    return getShapeLength(shape.value.slice(0, index))
+  }
+
+  /**
+   * Distance along the shape from the first vertex to the rotation pivot
+   * For polygons the end is the last vertex, before the closing leg
+   */
+  function getPivotDistance(): number {
+    switch (rotationPivot.value) {
+      case 'end':
+        return getVertexDistance(isShapeClosed.value ? shape.value.length - 1 : shape.value.length)
+      case 'midpoint':
+        return getShapeLength(shape.value) / 2
+      default:
+        return 0
+    }
+  }
+
+  /**
+   * Index of the handle sitting on the pivot (it moves the shape instead of
+   * rotating it); a midpoint pivot has no handle, so the start moves the shape
+   */
+  function getPivotHandleIndex(): number {
+    if (rotationPivot.value === 'end' && line.value) {
+      return getVertices(line.value).length - 1
+    }
+    return 0
+  }
+
+  /**
+   * Position of the rotation pivot and the direction of travel there
+   */
+  function locatePivot(): { point: Coordinate; heading: number } {
+    return locateOnShape(getProjectedVertices(), shape.value, getPivotDistance())
+  }
+
+  /**
+   * Bearing of the first leg of projected vertices
+   * Falls back when the first leg is too short to have a direction
+   */
+  function getLeadingBearing(projected: Coordinate[], fallback: number): number {
+    const [first, second] = projected
+    if (!first || !second) return fallback
+    if (calculateDistance(first.lat, first.lng, second.lat, second.lng) < 1) return fallback
+    return calculateBearing(first, second)
+  }
+
+  /**
+   * Project the shape turned by delta degrees around the rotation pivot
+   * 
+   * @param projected - Current vertices (closing vertex included)
+   * @param delta - Clockwise turn in degrees
+   * @param bearing - Current first-leg bearing (fallback for a degenerate first leg)
+   * @returns Turned vertices and the resulting first-leg bearing
+   */
+  function turnAroundPivot(
+    projected: Coordinate[],
+    delta: number,
+    bearing: number
+  ): { projected: Coordinate[]; bearing: number } {
+    const pivotDistance = getPivotDistance()
+    const { point, heading } = locateOnShape(projected, shape.value, pivotDistance)
+    const turned = projectShapeAround(
+      point,
+      normalizeBearing(heading + delta),
+      shape.value,
+      pivotDistance
+    )
+    return { projected: turned, bearing: getLeadingBearing(turned, bearing + delta) }
+  }
+
+  /**
+   * Rotate the right-map shape around the pivot until its first leg has the
+   * given bearing
+   * The pivot stays where it is and every leg keeps its true length; away from
+   * the start, the first-leg bearing does not turn by exactly the applied angle
+   * on a curved Earth, so the angle is refined over a few passes
+   */
+  function rotateToBearing(newBearing: number): void {
+    if (!line.value || side !== 'right') return
+
+    const target = normalizeBearing(newBearing)
+    if (rotationPivot.value === 'start') {
+      line.value.bearing = target
+      reproject()
+      return
+    }
+
+    // Always turn the original geometry, correcting the angle by the observed
+    // rate at which the first-leg bearing follows it (secant steps)
+    const original = getProjectedVertices()
+    const originalBearing = line.value.bearing ?? 0
+    let projected = original
+    let bearing = originalBearing
+    let applied = 0
+    let rate = 1
+
+    for (let i = 0; i < ROTATION_PIVOT_CONFIG.maxIterations; i++) {
+      const error = normalizeTurn(target - bearing)
+      if (Math.abs(error) < ROTATION_PIVOT_CONFIG.toleranceDegrees) break
+
+      const step = error / rate
+      const turned = turnAroundPivot(original, applied + step, originalBearing)
+      const observedRate = normalizeTurn(turned.bearing - bearing) / step
+      if (Number.isFinite(observedRate) && observedRate > 0.1) rate = observedRate
+
+      applied += step
+      projected = turned.projected
+      bearing = turned.bearing
+    }
+
+    applyProjection(projected, target)
+  }
+
+  /**
+   * Rotate the rigid right-map shape around the pivot so that the given
+   * vertex lies in the direction of the target position
+   * Directions are geodesic initial bearings from the pivot, so the handle
+   * tracks the cursor exactly at any latitude
+   */
+  function rotateHandleToward(
+    index: number,
+    target: Coordinate,
+    snapStep: number | null = null
+  ): void {
+    if (!line.value || side !== 'right') return
+
+    const handle = getVertices(line.value)[index]
+    if (!handle) return
+
+    const projected = getProjectedVertices()
+    const { point: pivot } = locatePivot()
+
+    // Handle coincides with the pivot: direction undefined, nothing to rotate
+    if (calculateDistance(pivot.lat, pivot.lng, handle.lat, handle.lng) < 1) {
+      return
+    }
+
+    const delta = calculateBearing(pivot, target) - calculateBearing(pivot, handle)
+    const turned = turnAroundPivot(projected, normalizeTurn(delta), line.value.bearing ?? 0)
+
+    if (snapStep) {
+      rotateToBearing(snapBearing(turned.bearing, snapStep))
+      return
+    }
+
+    applyProjection(turned.projected, turned.bearing)
+  }
+
+  /**
+   * Move the rigid right-map shape so the given vertex sits at a new position,
+   * keeping the direction of travel at that vertex
+   */
+  function moveHandleTo(index: number, position: Coordinate): void {
+    if (!line.value || side !== 'right') return
+
+    // Start handle: lock bearing, move anchor, rebuild shape from new start
+    if (index === 0) {
+      line.value.startPoint = position
+      reproject()
+      return
+    }
+
+    const distance = getVertexDistance(index)
+    const { heading } = locateOnShape(getProjectedVertices(), shape.value, distance)
+    const projected = projectShapeAround(position, heading, shape.value, distance)
+
+    applyProjection(projected, getLeadingBearing(projected, line.value.bearing ?? 0))
+  }
+
+  /**
+   * Choose the point the right-map shape rotates around
+   */
+  function setRotationPivot(pivot: RotationPivot): void {
+    rotationPivot.value = pivot
+    renderLine()
+  }
+
+  /**
+   * Place the right-map shape at an explicit anchor and bearing
+   * Used when restoring a shared link
+   */
+  function setPlacement(anchor: Coordinate, newBearing: number): void {
+    if (!line.value || side !== 'right') return
+
+    line.value.startPoint = anchor
+    line.value.bearing = normalizeBearing(newBearing)
+    reproject()
+  }
+
+  /**
+   * Replace the transplanted shape (right map)
+   * Preserves anchor and bearing; creates the line at map center with 0° bearing
+   * if it doesn't exist yet
+   */
+  function setShape(legs: PathLeg[], closed: boolean = false): void {
+    if (side !== 'right' || !map.value || legs.length === 0) return
 
-    const { calculateDestinationPoint } = useGeodesic()
+    shape.value = legs
+    isShapeClosed.value = closed
 
-    // If no line exists yet, create one at map center with 0° bearing
     if (!line.value) {
       const mapCenter = map.value.getCenter()
       const startPoint: Coordinate = {
@@ -276,25 +979,73 @@ export function useDistanceLine(options: UseDistanceLineOptions) {
         lng: mapCenter.lng,
       }
 
-      // Calculate endpoint at 0° bearing (North) with given distance
-      const endPoint = calculateDestinationPoint(startPoint, newDistanceMeters, 0)
+      line.value = {
+        id: `line-${side}-${Date.now()}`,
+        startPoint,
+        endPoint: startPoint,
+        distanceMeters: 0,
+        bearing: 0,
+      }
+    }
 
-      createLine(startPoint, endPoint)
+    reproject()
+  }
+
+  /**
+   * Transplant a full geometry to the right map
+   * The path is re-projected around the current anchor so each segment keeps
+   * its true length and relative bearing (not its Mercator pixel shape)
+   * Closed polygons include the closing leg so the ring returns to the anchor
+   * Leg lengths measured along an imported track replace the straight ones
+   */
+  function updateGeometry(
+    vertices: Coordinate[],
+    closed: boolean = false,
+    legDistances?: number[]
+  ): void {
+    if (vertices.length < 2) return
+    if (closed) {
+      setShape(extractShape([...vertices, vertices[0]!]), true)
       return
     }
 
-    // Update existing line
-    const bearing = line.value.bearing ?? 0
+    const legs = extractShape(vertices)
+    if (legDistances?.length === legs.length) {
+      legs.forEach((leg, index) => {
+        leg.distanceMeters = legDistances[index]!
+      })
+    }
+    setShape(legs)
+  }
 
-    // Calculate new endpoint based on distance and bearing
-    const newEndPoint = calculateDestinationPoint(
-      line.value.startPoint,
-      newDistanceMeters,
-      bearing
-    )
+  /**
+   * Update distance for synchronized line (right map)
+   * Preserves bearing while updating distance (straight single-leg shape)
+   * Creates line if it doesn't exist yet
+   */
+  function updateDistance(newDistanceMeters: number): void {
+    setShape([{ distanceMeters: newDistanceMeters, turnAngle: 0 }])
+  }
 
-    line.value.endPoint = newEndPoint
-    line.value.distanceMeters = newDistanceMeters
+  /**
+   * Recompute line geometry after the Earth model changes
+   * Left map: re-measures distance between the fixed endpoints
+   * Right map: rebuilds the locked shape from anchor and bearing
+   */
+  function recalculate(): void {
+    if (!line.value) return
+
+    if (side === 'right') {
+      reproject()
+      return
+    }
+
+    trackLegs =
+      trackLegs?.map((leg) => ({
+        ...leg,
+        distanceMeters: calculatePathDistance(leg.points) * leg.scale,
+      })) ?? null
+    Object.assign(line.value, measure(getVertices(line.value), line.value.closed === true))
 
     renderLine()
   }
@@ -315,18 +1066,49 @@ export function useDistanceLine(options: UseDistanceLineOptions) {
     polyline,
     startMarker,
     endMarker,
+    vertexMarkers,
     isVisible,
+    isPath,
+    isPolygon,
+    areaDisplay,
     distanceMeters,
     distanceDisplay,
     isZeroLength, // T057: Edge case detection
     isOutsideViewport, // T058: Viewport overflow detection
+    offscreenIndicator,
+    rotationPivot,
     
     // Methods
+    setVisible,
+    setHighlighted,
     createLine,
+    createPath,
+    createPolygon,
     updateEndpoint,
+    updateVertex,
     clearLine,
     renderLine,
     updateDistance,
+    updateGeometry,
+    setPlacement,
+    reproject,
+    recalculate,
     setBearing, // T047: Set bearing for rotation
+    rotateToBearing,
+    setRotationPivot,
+    getLineBounds,
+    fitLine,
+    getTrackSegments,
+    getLegDistances,
   }
 }
+
+const normalizeBearing = (deg: number): number => ((deg % 360) + 360) % 360
+
+/**
+ * Normalize a turn angle to -180..180 degrees
+ */
+function normalizeTurn(deg: number): number {
+  const normalized = normalizeBearing(deg)
+  return normalized > 180 ? normalized - 360 : normalized
+}
@@ -0,0 +1,271 @@
+/**
+ * Geocoding Composable
+ * Place search behind a pluggable provider interface, with a Nominatim
+ * (OpenStreetMap) adapter and an offline gazetteer adapter
+ */
+
+import { ref, onUnmounted } from 'vue'
+import type {
+  Bounds,
+  GeocodingProvider,
+  GeocodingResult,
+  GeocodingSearchOptions,
+} from '../types/map.types'
+import { GEOCODING_CONFIG } from '../config/map.config'
+import { GAZETTEER_PLACES } from '../config/gazetteer'
+
+/**
+ * Raw Nominatim search result (format=jsonv2); numbers arrive as strings
+ */
+interface NominatimPlace {
+  place_id: number
+  display_name: string
+  lat: string
+  lon: string
+  /** [south, north, west, east] */
+  boundingbox?: [string, string, string, string]
+}
+
+/**
+ * Convert a Nominatim bounding box to Bounds (undefined if malformed)
+ */
+function parseNominatimBounds(box: NominatimPlace['boundingbox']): Bounds | undefined {
+  if (!box || box.length !== 4) return undefined
+
+  const [south, north, west, east] = box.map(Number)
+  if (![south, north, west, east].every(Number.isFinite)) return undefined
+
+  return { north: north!, south: south!, east: east!, west: west! }
+}
+
+// Earliest time the next Nominatim request may be sent (shared by both maps)
+let nextNominatimRequestAt = 0
+
+/**
+ * Resolve after the given delay, or reject as soon as the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        reject(new DOMException('Aborted', 'AbortError'))
+      },
+      { once: true }
+    )
+  })
+}
+
+/**
+ * Create a provider backed by a Nominatim search endpoint
+ * Searches only on Enter and waits so requests stay at most one per second,
+ * as the public instance's usage policy requires
+ * 
+ * @param baseUrl - Search endpoint (defaults to the public OpenStreetMap instance)
+ */
+export function createNominatimProvider(
+  baseUrl: string = GEOCODING_CONFIG.nominatimUrl
+): GeocodingProvider {
+  return {
+    name: 'Nominatim',
+    searchAsYouType: false,
+    async search(query: string, options?: GeocodingSearchOptions): Promise<GeocodingResult[]> {
+      const now = Date.now()
+      const delay = nextNominatimRequestAt - now
+      nextNominatimRequestAt =
+        Math.max(nextNominatimRequestAt, now) + GEOCODING_CONFIG.nominatimMinIntervalMs
+      if (delay > 0) {
+        await wait(delay, options?.signal)
+      }
+
+      const url = new URL(baseUrl)
+      url.searchParams.set('q', query)
+      url.searchParams.set('format', 'jsonv2')
+      url.searchParams.set('limit', String(options?.limit ?? GEOCODING_CONFIG.resultLimit))
+
+      const response = await fetch(url.toString(), {
+        headers: { Accept: 'application/json' },
+        signal: options?.signal,
+      })
+      if (!response.ok) {
+        throw new Error(`Place search failed (HTTP ${response.status})`)
+      }
+
+      const places = (await response.json()) as NominatimPlace[]
+      return places
+        .map((place): GeocodingResult => ({
+          id: `nominatim-${place.place_id}`,
+          name: place.display_name,
+          center: { lat: Number(place.lat), lng: Number(place.lon) },
+          bounds: parseNominatimBounds(place.boundingbox),
+        }))
+        .filter((result) => Number.isFinite(result.center.lat) && Number.isFinite(result.center.lng))
+    },
+  }
+}
+
+/**
+ * Create a provider that searches a fixed list of places (no network)
+ * Names starting with the query rank before names that only contain it
+ * 
+ * @param places - Places to search (defaults to the built-in gazetteer)
+ */
+export function createGazetteerProvider(
+  places: GeocodingResult[] = GAZETTEER_PLACES
+): GeocodingProvider {
+  return {
+    name: 'Offline gazetteer',
+    searchAsYouType: true,
+    async search(query: string, options?: GeocodingSearchOptions): Promise<GeocodingResult[]> {
+      const needle = query.trim().toLowerCase()
+      if (!needle) return []
+
+      const prefixMatches: GeocodingResult[] = []
+      const otherMatches: GeocodingResult[] = []
+
+      for (const place of places) {
+        const name = place.name.toLowerCase()
+        if (name.startsWith(needle)) {
+          prefixMatches.push(place)
+        } else if (name.includes(needle)) {
+          otherMatches.push(place)
+        }
+      }
+
+      return [...prefixMatches, ...otherMatches].slice(
+        0,
+        options?.limit ?? GEOCODING_CONFIG.resultLimit
+      )
+    },
+  }
+}
+
+export interface UseGeocodingOptions {
+  /** Provider used for all queries */
+  provider: GeocodingProvider
+}
+
+/**
+ * Composable for debounced place search
+ * Superseded requests are aborted so results always match the latest query
+ */
+export function useGeocoding(options: UseGeocodingOptions) {
+  const { provider } = options
+
+  const results = ref<GeocodingResult[]>([])
+  const isSearching = ref(false)
+  const error = ref<string | null>(null)
+  // Query the current results belong to (null until a search completes)
+  const lastQuery = ref<string | null>(null)
+
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null
+  let activeRequest: AbortController | null = null
+
+  /**
+   * Cancel any pending or in-flight search
+   */
+  function cancel(): void {
+    if (debounceTimer !== null) {
+      clearTimeout(debounceTimer)
+      debounceTimer = null
+    }
+    if (activeRequest) {
+      activeRequest.abort()
+      activeRequest = null
+    }
+    isSearching.value = false
+  }
+
+  /**
+   * Run a search immediately
+   * 
+   * @param query - Free-text place query
+   * @returns Matching places (empty for short queries, failures or cancellation)
+   */
+  async function search(query: string): Promise<GeocodingResult[]> {
+    cancel()
+
+    const trimmed = query.trim()
+    if (trimmed.length < GEOCODING_CONFIG.minQueryLength) {
+      results.value = []
+      error.value = null
+      lastQuery.value = null
+      return []
+    }
+
+    const request = new AbortController()
+    activeRequest = request
+    isSearching.value = true
+    error.value = null
+
+    try {
+      const found = await provider.search(trimmed, {
+        limit: GEOCODING_CONFIG.resultLimit,
+        signal: request.signal,
+      })
+      if (request.signal.aborted) return []
+
+      results.value = found
+      lastQuery.value = trimmed
+      return found
+    } catch (err) {
+      if (request.signal.aborted) return []
+
+      results.value = []
+      lastQuery.value = trimmed
+      error.value = err instanceof Error ? err.message : 'Place search failed'
+      console.error('Geocoding error:', err)
+      return []
+    } finally {
+      if (activeRequest === request) {
+        activeRequest = null
+        isSearching.value = false
+      }
+    }
+  }
+
+  /**
+   * Search after the user stops typing
+   * 
+   * @param query - Free-text place query
+   */
+  function searchDebounced(query: string): void {
+    cancel()
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null
+      search(query)
+    }, GEOCODING_CONFIG.searchDebounceMs)
+  }
+
+  /**
+   * Cancel searches and forget results
+   */
+  function clear(): void {
+    cancel()
+    results.value = []
+    error.value = null
+    lastQuery.value = null
+  }
+
+  onUnmounted(cancel)
+
+  return {
+    // State
+    results,
+    isSearching,
+    error,
+    lastQuery,
+
+    // Methods
+    search,
+    searchDebounced,
+    clear,
+  }
+}
@@ -2,51 +2,541 @@
  * Geodesic calculations composable
  * T006-T009: Haversine distance, bearing, destination point, formatting
  * Based on research.md geodesic calculations
+ * Ellipsoidal (WGS84 Vincenty) inverse/direct solutions selectable per session,
+ * with Karney's method (GeographicLib) for nearly antipodal points
+ * Polygon area via spherical excess, or on the WGS84 ellipsoid (Karney)
+ * Display unit and number format shared app-wide and remembered across visits
  */
 
-import type { Coordinate, DistanceUnit } from '../types/map.types'
-import { DISTANCE_THRESHOLDS } from '../config/map.config'
+import { ref } from 'vue'
+import { Geodesic } from 'geographiclib-geodesic'
+import type {
+  AreaUnit,
+  Coordinate,
+  DistanceUnit,
+  GeodesicModel,
+  NumberLocale,
+} from '../types/map.types'
+import {
+  AREA_UNIT_FACTORS,
+  AREA_UNIT_LABELS,
+  DISTANCE_THRESHOLDS,
+  DISTANCE_UNIT_ALIASES,
+  DISTANCE_UNIT_FACTORS,
+  DISTANCE_UNIT_LABELS,
+  DEFAULT_DISTANCE_UNIT,
+  DISTANCE_UNIT_STORAGE_KEY,
+  NUMBER_LOCALE_OPTIONS,
+  NUMBER_LOCALE_STORAGE_KEY,
+  DEFAULT_GEODESIC_MODEL,
+  GEODESIC_MODEL_STORAGE_KEY,
+} from '../config/map.config'
 
 // Earth's radius in meters (mean radius)
 const EARTH_RADIUS_METERS = 6371000
 
+// WGS84 ellipsoid parameters
+const WGS84_A = 6378137 // Semi-major axis in meters
+const WGS84_F = 1 / 298.257223563 // Flattening
+const WGS84_B = WGS84_A * (1 - WGS84_F) // Semi-minor axis in meters
+
+// Vincenty iteration limits
+const VINCENTY_EPSILON = 1e-12
+const VINCENTY_MAX_ITERATIONS = 200
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180
+const toDegrees = (rad: number): number => (rad * 180) / Math.PI
+const normalizeLongitude = (lng: number): number => ((lng + 540) % 360) - 180
+const normalizeBearing = (deg: number): number => ((deg % 360) + 360) % 360
+
+/**
+ * Read persisted model from session storage (falls back to default)
+ */
+function loadGeodesicModel(): GeodesicModel {
+  try {
+    const stored = sessionStorage.getItem(GEODESIC_MODEL_STORAGE_KEY)
+    if (stored === 'haversine' || stored === 'vincenty') {
+      return stored
+    }
+  } catch {
+    // Storage unavailable (private mode, SSR) - use default
+  }
+  return DEFAULT_GEODESIC_MODEL
+}
+
+// Own keys only: `in` would also accept inherited names such as "toString"
+const DISTANCE_UNITS = Object.keys(DISTANCE_UNIT_FACTORS) as DistanceUnit[]
+const NUMBER_LOCALES = Object.keys(NUMBER_LOCALE_OPTIONS) as NumberLocale[]
+
+/**
+ * Read remembered distance unit from local storage (falls back to default)
+ */
+function loadDistanceUnit(): DistanceUnit {
+  try {
+    const stored = localStorage.getItem(DISTANCE_UNIT_STORAGE_KEY)
+    if (stored && DISTANCE_UNITS.includes(stored as DistanceUnit)) {
+      return stored as DistanceUnit
+    }
+  } catch {
+    // Storage unavailable - use default
+  }
+  return DEFAULT_DISTANCE_UNIT
+}
+
+/**
+ * Read remembered number format from local storage (falls back to browser locale)
+ */
+function loadNumberLocale(): NumberLocale {
+  try {
+    const stored = localStorage.getItem(NUMBER_LOCALE_STORAGE_KEY)
+    if (stored && NUMBER_LOCALES.includes(stored as NumberLocale)) {
+      return stored as NumberLocale
+    }
+  } catch {
+    // Storage unavailable - use default
+  }
+  return 'auto'
+}
+
+// Shared across all composable instances so both maps use the same model
+const geodesicModel = ref<GeodesicModel>(loadGeodesicModel())
+
+// Shared display preferences: every formatted distance follows these
+const distanceUnit = ref<DistanceUnit>(loadDistanceUnit())
+const numberLocale = ref<NumberLocale>(loadNumberLocale())
+
+// Intl formatters are relatively expensive to create; reuse per locale/digits
+const numberFormatters = new Map<string, Intl.NumberFormat>()
+
+/**
+ * Format a number with fixed decimals in the selected locale
+ */
+function formatNumber(value: number, digits: number): string {
+  const locale = numberLocale.value === 'auto' ? undefined : numberLocale.value
+  const key = `${numberLocale.value}|${digits}`
+
+  let formatter = numberFormatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    })
+    numberFormatters.set(key, formatter)
+  }
+  return formatter.format(value)
+}
+
+/**
+ * Pick the unit and decimals actually shown for a distance
+ * Metric, imperial and nautical fall back to a small unit for short distances
+ */
+function resolveDisplayUnit(
+  meters: number,
+  unit: DistanceUnit,
+  precision: number
+): { unit: DistanceUnit; digits: number } {
+  switch (unit) {
+    case 'meters':
+    case 'kilometers':
+      if (meters < DISTANCE_THRESHOLDS.metersToKilometers) {
+        // High precision for very short distances
+        const digits = meters < DISTANCE_THRESHOLDS.highPrecisionMeters ? 2 : 0
+        return { unit: 'meters', digits }
+      }
+      return { unit: 'kilometers', digits: precision }
+    case 'miles':
+      if (meters / DISTANCE_UNIT_FACTORS.miles < DISTANCE_THRESHOLDS.smallUnitThreshold) {
+        return { unit: 'feet', digits: 0 }
+      }
+      return { unit: 'miles', digits: precision }
+    case 'nautical-miles':
+      if (meters / DISTANCE_UNIT_FACTORS['nautical-miles'] < DISTANCE_THRESHOLDS.smallUnitThreshold) {
+        return { unit: 'meters', digits: 0 }
+      }
+      return { unit: 'nautical-miles', digits: precision }
+    case 'yards':
+      return { unit: 'yards', digits: 0 }
+    case 'feet':
+      return { unit: 'feet', digits: precision }
+    default:
+      // Unknown unit (e.g. stale stored value): show the default unit
+      return resolveDisplayUnit(meters, DEFAULT_DISTANCE_UNIT, precision)
+  }
+}
+
+/**
+ * Read a typed number in either notation: with both "." and "," the last one
+ * is the decimal separator; a lone "," is decimal in comma locales (and when
+ * not followed by exactly three digits); repeated separators group thousands
+ */
+function parseTypedNumber(text: string): number | null {
+  const compact = text.replace(/[\s\u00a0\u202f]/g, '')
+  const commas = compact.split(',').length - 1
+  const dots = compact.split('.').length - 1
+
+  let decimal: ',' | '.' | null = null
+  if (commas > 0 && dots > 0) {
+    decimal = compact.lastIndexOf(',') > compact.lastIndexOf('.') ? ',' : '.'
+  } else if (dots === 1) {
+    decimal = '.'
+  } else if (commas === 1) {
+    const decimalComma = formatNumber(1.5, 1).includes(',')
+    decimal = decimalComma || !/,\d{3}$/.test(compact) ? ',' : null
+  }
+
+  let normalized: string
+  if (decimal === ',') {
+    normalized = compact.replace(/\./g, '').replace(',', '.')
+  } else if (decimal === '.') {
+    normalized = compact.replace(/,/g, '')
+  } else {
+    normalized = compact.replace(/[.,]/g, '')
+  }
+
+  if (!/^-?(\d+(\.\d*)?|\.\d+)$/.test(normalized)) return null
+  return Number(normalized)
+}
+
+// ============================================================================
+// Spherical (Haversine) solutions
+// ============================================================================
+
+function haversineInverse(
+  start: Coordinate,
+  end: Coordinate
+): { distance: number; bearing: number } {
+  const φ1 = toRadians(start.lat)
+  const φ2 = toRadians(end.lat)
+  const Δφ = toRadians(end.lat - start.lat)
+  const Δλ = toRadians(end.lng - start.lng)
+
+  // Haversine formula
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+
+  // Initial bearing (forward azimuth)
+  const y = Math.sin(Δλ) * Math.cos(φ2)
+  const x =
+    Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ)
+
+  return {
+    distance: EARTH_RADIUS_METERS * c,
+    bearing: normalizeBearing(toDegrees(Math.atan2(y, x))),
+  }
+}
+
+function haversineDirect(
+  start: Coordinate,
+  distanceMeters: number,
+  bearingDegrees: number
+): Coordinate {
+  const φ1 = toRadians(start.lat)
+  const λ1 = toRadians(start.lng)
+  const θ = toRadians(bearingDegrees)
+  const δ = distanceMeters / EARTH_RADIUS_METERS // Angular distance
+
+  const φ2 = Math.asin(
+    Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ)
+  )
+
+  const λ2 =
+    λ1 +
+    Math.atan2(
+      Math.sin(θ) * Math.sin(δ) * Math.cos(φ1),
+      Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2)
+    )
+
+  return { lat: toDegrees(φ2), lng: normalizeLongitude(toDegrees(λ2)) }
+}
+
+// ============================================================================
+// Ellipsoidal (WGS84 Vincenty) solutions
+// ============================================================================
+
+/**
+ * Vincenty inverse problem: distance and initial bearing between two points
+ * Returns null when the iteration fails to converge (nearly antipodal points)
+ */
+function vincentyInverse(
+  start: Coordinate,
+  end: Coordinate
+): { distance: number; bearing: number } | null {
+  const L = toRadians(end.lng - start.lng)
+  const tanU1 = (1 - WGS84_F) * Math.tan(toRadians(start.lat))
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1)
+  const sinU1 = tanU1 * cosU1
+  const tanU2 = (1 - WGS84_F) * Math.tan(toRadians(end.lat))
+  const cosU2 = 1 / Math.sqrt(1 + tanU2 * tanU2)
+  const sinU2 = tanU2 * cosU2
+
+  let λ = L
+  let sinλ = 0
+  let cosλ = 0
+  let sinσ = 0
+  let cosσ = 0
+  let σ = 0
+  let sinα = 0
+  let cosSqα = 0
+  let cos2σm = 0
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    sinλ = Math.sin(λ)
+    cosλ = Math.cos(λ)
+    const sinSqσ =
+      (cosU2 * sinλ) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosλ) ** 2
+
+    // Coincident points
+    if (sinSqσ === 0) {
+      return { distance: 0, bearing: 0 }
+    }
+
+    sinσ = Math.sqrt(sinSqσ)
+    cosσ = sinU1 * sinU2 + cosU1 * cosU2 * cosλ
+    σ = Math.atan2(sinσ, cosσ)
+    sinα = (cosU1 * cosU2 * sinλ) / sinσ
+    cosSqα = 1 - sinα * sinα
+    // Equatorial line: cosSqα = 0
+    cos2σm = cosSqα !== 0 ? cosσ - (2 * sinU1 * sinU2) / cosSqα : 0
+
+    const C = (WGS84_F / 16) * cosSqα * (4 + WGS84_F * (4 - 3 * cosSqα))
+    const λPrev = λ
+    λ =
+      L +
+      (1 - C) *
+        WGS84_F *
+        sinα *
+        (σ + C * sinσ * (cos2σm + C * cosσ * (-1 + 2 * cos2σm * cos2σm)))
+
+    if (Math.abs(λ) > Math.PI * 2) {
+      return null
+    }
+    if (Math.abs(λ - λPrev) < VINCENTY_EPSILON) {
+      const uSq = (cosSqα * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B)
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)))
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)))
+      const Δσ =
+        B *
+        sinσ *
+        (cos2σm +
+          (B / 4) *
+            (cosσ * (-1 + 2 * cos2σm * cos2σm) -
+              (B / 6) * cos2σm * (-3 + 4 * sinσ * sinσ) * (-3 + 4 * cos2σm * cos2σm)))
+
+      const α1 = Math.atan2(cosU2 * sinλ, cosU1 * sinU2 - sinU1 * cosU2 * cosλ)
+
+      return {
+        distance: WGS84_B * A * (σ - Δσ),
+        bearing: normalizeBearing(toDegrees(α1)),
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Vincenty direct problem: destination given start, distance and initial bearing
+ */
+function vincentyDirect(
+  start: Coordinate,
+  distanceMeters: number,
+  bearingDegrees: number
+): Coordinate {
+  const α1 = toRadians(bearingDegrees)
+  const sinα1 = Math.sin(α1)
+  const cosα1 = Math.cos(α1)
+
+  const tanU1 = (1 - WGS84_F) * Math.tan(toRadians(start.lat))
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1)
+  const sinU1 = tanU1 * cosU1
+  const σ1 = Math.atan2(tanU1, cosα1)
+  const sinα = cosU1 * sinα1
+  const cosSqα = 1 - sinα * sinα
+  const uSq = (cosSqα * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B)
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)))
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)))
+
+  let σ = distanceMeters / (WGS84_B * A)
+  let sinσ = Math.sin(σ)
+  let cosσ = Math.cos(σ)
+  let cos2σm = Math.cos(2 * σ1 + σ)
+
+  for (let i = 0; i < VINCENTY_MAX_ITERATIONS; i++) {
+    cos2σm = Math.cos(2 * σ1 + σ)
+    sinσ = Math.sin(σ)
+    cosσ = Math.cos(σ)
+    const Δσ =
+      B *
+      sinσ *
+      (cos2σm +
+        (B / 4) *
+          (cosσ * (-1 + 2 * cos2σm * cos2σm) -
+            (B / 6) * cos2σm * (-3 + 4 * sinσ * sinσ) * (-3 + 4 * cos2σm * cos2σm)))
+    const σPrev = σ
+    σ = distanceMeters / (WGS84_B * A) + Δσ
+    if (Math.abs(σ - σPrev) < VINCENTY_EPSILON) break
+  }
+
+  sinσ = Math.sin(σ)
+  cosσ = Math.cos(σ)
+  cos2σm = Math.cos(2 * σ1 + σ)
+
+  const x = sinU1 * sinσ - cosU1 * cosσ * cosα1
+  const φ2 = Math.atan2(
+    sinU1 * cosσ + cosU1 * sinσ * cosα1,
+    (1 - WGS84_F) * Math.sqrt(sinα * sinα + x * x)
+  )
+  const λ = Math.atan2(sinσ * sinα1, cosU1 * cosσ - sinU1 * sinσ * cosα1)
+  const C = (WGS84_F / 16) * cosSqα * (4 + WGS84_F * (4 - 3 * cosSqα))
+  const L =
+    λ -
+    (1 - C) *
+      WGS84_F *
+      sinα *
+      (σ + C * sinσ * (cos2σm + C * cosσ * (-1 + 2 * cos2σm * cos2σm)))
+
+  return {
+    lat: toDegrees(φ2),
+    lng: normalizeLongitude(start.lng + toDegrees(L)),
+  }
+}
+
+/**
+ * Karney inverse problem (GeographicLib): converges for every pair of points,
+ * including the nearly antipodal ones where Vincenty's iteration fails
+ */
+function karneyInverse(start: Coordinate, end: Coordinate): { distance: number; bearing: number } {
+  const result = Geodesic.WGS84.Inverse(
+    start.lat,
+    start.lng,
+    end.lat,
+    end.lng,
+    Geodesic.DISTANCE | Geodesic.AZIMUTH
+  )
+
+  return {
+    distance: result.s12 ?? 0,
+    bearing: normalizeBearing(result.azi1 ?? 0),
+  }
+}
+
+/**
+ * Solve the inverse problem with the given model
+ * Nearly antipodal points where Vincenty does not converge use Karney's method
+ */
+function solveInverse(
+  start: Coordinate,
+  end: Coordinate,
+  model: GeodesicModel
+): { distance: number; bearing: number } {
+  if (model === 'vincenty') {
+    return vincentyInverse(start, end) ?? karneyInverse(start, end)
+  }
+  return haversineInverse(start, end)
+}
+
 /**
  * Composable for geodesic calculations
  * Provides distance, bearing, and destination point calculations
  */
 export function useGeodesic() {
   /**
-   * T006: Calculate geodesic distance between two points using Haversine formula
-   * Accuracy: ±0.5% for distances up to 20,000km (SC-003 requirement: 99.5%)
+   * T006: Calculate geodesic distance between two points
+   * Haversine accuracy: ±0.5% for distances up to 20,000km (SC-003 requirement: 99.5%)
+   * Vincenty accuracy: within 0.5mm on the WGS84 ellipsoid
    * Performance: <10ms per calculation (SC-004)
    * 
    * @param lat1 - Start latitude in decimal degrees
    * @param lng1 - Start longitude in decimal degrees
    * @param lat2 - End latitude in decimal degrees
    * @param lng2 - End longitude in decimal degrees
+   * @param model - Earth model (defaults to the session-selected model)
    * @returns Distance in meters
    */
   function calculateDistance(
     lat1: number,
     lng1: number,
     lat2: number,
-    lng2: number
+    lng2: number,
+    model: GeodesicModel = geodesicModel.value
   ): number {
-    // Convert to radians
-    const φ1 = (lat1 * Math.PI) / 180
-    const φ2 = (lat2 * Math.PI) / 180
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180
-    const Δλ = ((lng2 - lng1) * Math.PI) / 180
+    return solveInverse({ lat: lat1, lng: lng1 }, { lat: lat2, lng: lng2 }, model)
+      .distance
+  }
 
-    // Haversine formula
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
+  /**
+   * Calculate total geodesic length of a multi-segment path
+   * Sums the distance of every consecutive vertex pair
+   * 
+   * @param vertices - Ordered path vertices
+   * @param model - Earth model (defaults to the session-selected model)
+   * @returns Total distance in meters (0 for fewer than two vertices)
+   */
+  function calculatePathDistance(
+    vertices: Coordinate[],
+    model: GeodesicModel = geodesicModel.value
+  ): number {
+    let total = 0
+    for (let i = 1; i < vertices.length; i++) {
+      const a = vertices[i - 1]!
+      const b = vertices[i]!
+      total += calculateDistance(a.lat, a.lng, b.lat, b.lng, model)
+    }
+    return total
+  }
 
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  /**
+   * Calculate geodesic perimeter of a closed polygon ring
+   * 
+   * @param vertices - Ring vertices (first vertex not repeated at the end)
+   * @param model - Earth model (defaults to the session-selected model)
+   * @returns Perimeter in meters
+   */
+  function calculatePolygonPerimeter(
+    vertices: Coordinate[],
+    model: GeodesicModel = geodesicModel.value
+  ): number {
+    if (vertices.length < 2) return 0
+    return calculatePathDistance([...vertices, vertices[0]!], model)
+  }
+
+  /**
+   * Calculate area of a closed polygon on the Earth's surface
+   * Spherical excess (Chamberlain & Duquette) on the mean-radius sphere for
+   * Haversine, or the geodesic polygon area on the WGS84 ellipsoid (Karney)
+   * for Vincenty, so areas use the same model as lengths
+   * Handles rings crossing the antimeridian
+   * 
+   * @param vertices - Ring vertices (first vertex not repeated at the end)
+   * @param model - Earth model (defaults to the session-selected model)
+   * @returns Area in square meters
+   */
+  function calculatePolygonArea(
+    vertices: Coordinate[],
+    model: GeodesicModel = geodesicModel.value
+  ): number {
+    if (vertices.length < 3) return 0
+
+    if (model === 'vincenty') {
+      const polygon = Geodesic.WGS84.Polygon(false)
+      for (const vertex of vertices) {
+        polygon.AddPoint(vertex.lat, vertex.lng)
+      }
+      return Math.abs(polygon.Compute(false, true).area ?? 0)
+    }
+
+    let total = 0
+
+    for (let i = 0; i < vertices.length; i++) {
+      const a = vertices[i]!
+      const b = vertices[(i + 1) % vertices.length]!
+      const Δλ = toRadians(normalizeLongitude(b.lng - a.lng))
+      total += Δλ * (2 + Math.sin(toRadians(a.lat)) + Math.sin(toRadians(b.lat)))
+    }
 
-    // Distance in meters
-    return EARTH_RADIUS_METERS * c
+    return Math.abs((total * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS) / 2)
   }
 
   /**
@@ -56,25 +546,15 @@ export function useGeodesic() {
    * 
    * @param start - Start coordinate
    * @param end - End coordinate
+   * @param model - Earth model (defaults to the session-selected model)
    * @returns Bearing in degrees (0-360)
    */
-  function calculateBearing(start: Coordinate, end: Coordinate): number {
-    // Convert to radians
-    const φ1 = (start.lat * Math.PI) / 180
-    const φ2 = (end.lat * Math.PI) / 180
-    const Δλ = ((end.lng - start.lng) * Math.PI) / 180
-
-    // Calculate bearing
-    const y = Math.sin(Δλ) * Math.cos(φ2)
-    const x =
-      Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ)
-
-    const θ = Math.atan2(y, x)
-
-    // Convert to degrees and normalize to 0-360
-    const bearing = ((θ * 180) / Math.PI + 360) % 360
-
-    return bearing
+  function calculateBearing(
+    start: Coordinate,
+    end: Coordinate,
+    model: GeodesicModel = geodesicModel.value
+  ): number {
+    return solveInverse(start, end, model).bearing
   }
 
   /**
@@ -85,92 +565,166 @@ export function useGeodesic() {
    * @param start - Start coordinate
    * @param distanceMeters - Distance in meters
    * @param bearingDegrees - Bearing in degrees (0-360)
+   * @param model - Earth model (defaults to the session-selected model)
    * @returns Destination coordinate
    */
   function calculateDestinationPoint(
     start: Coordinate,
     distanceMeters: number,
-    bearingDegrees: number
+    bearingDegrees: number,
+    model: GeodesicModel = geodesicModel.value
   ): Coordinate {
-    // Convert to radians
-    const φ1 = (start.lat * Math.PI) / 180
-    const λ1 = (start.lng * Math.PI) / 180
-    const θ = (bearingDegrees * Math.PI) / 180
-    const δ = distanceMeters / EARTH_RADIUS_METERS // Angular distance
-
-    // Calculate destination point
-    const φ2 = Math.asin(
-      Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ)
-    )
+    if (model === 'vincenty') {
+      return vincentyDirect(start, distanceMeters, bearingDegrees)
+    }
+    return haversineDirect(start, distanceMeters, bearingDegrees)
+  }
+
+  /**
+   * Select the Earth model used by all geodesic calculations this session
+   * 
+   * @param model - Earth model to use
+   */
+  function setGeodesicModel(model: GeodesicModel): void {
+    geodesicModel.value = model
+    try {
+      sessionStorage.setItem(GEODESIC_MODEL_STORAGE_KEY, model)
+    } catch {
+      // Storage unavailable - selection still applies to this page
+    }
+  }
+
+  /**
+   * Set the display unit for all distances and remember it
+   */
+  function setDistanceUnit(unit: DistanceUnit): void {
+    if (!DISTANCE_UNITS.includes(unit)) return
 
-    const λ2 =
-      λ1 +
-      Math.atan2(
-        Math.sin(θ) * Math.sin(δ) * Math.cos(φ1),
-        Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2)
-      )
+    distanceUnit.value = unit
+    try {
+      localStorage.setItem(DISTANCE_UNIT_STORAGE_KEY, unit)
+    } catch {
+      // Storage unavailable - selection still applies to this page
+    }
+  }
 
-    // Convert back to degrees and normalize longitude
-    const lat = (φ2 * 180) / Math.PI
-    const lng = (((λ2 * 180) / Math.PI + 540) % 360) - 180 // Normalize to -180 to 180
+  /**
+   * Set the number format for all displayed values and remember it
+   */
+  function setNumberLocale(locale: NumberLocale): void {
+    if (!NUMBER_LOCALES.includes(locale)) return
 
-    return { lat, lng }
+    numberLocale.value = locale
+    try {
+      localStorage.setItem(NUMBER_LOCALE_STORAGE_KEY, locale)
+    } catch {
+      // Storage unavailable - selection still applies to this page
+    }
   }
 
   /**
    * T009: Format distance value with appropriate unit and precision
    * Auto-converts based on magnitude per data-model.md DistanceUnit
+   * Numbers use the selected locale (digit grouping, decimal separator)
    * 
    * @param meters - Distance in meters
-   * @param unit - Target unit (defaults to auto-convert)
+   * @param unit - Target unit (defaults to the selected display unit)
    * @param precision - Number of decimal places (default: 1)
    * @returns Formatted distance string (e.g., "5.2 km")
    */
   function formatDistance(
     meters: number,
-    unit: DistanceUnit = 'kilometers',
+    unit: DistanceUnit = distanceUnit.value,
     precision: number = 1
   ): string {
-    // Handle zero or very small distances
+    // Handle zero or very small distances in the unit's small unit
     if (meters < 0.01) {
-      return '0 m'
+      const zeroUnit = resolveDisplayUnit(0, unit, precision).unit
+      return `${formatNumber(0, 0)} ${DISTANCE_UNIT_LABELS[zeroUnit]}`
     }
 
-    // Auto-convert based on magnitude
-    if (unit === 'kilometers' || unit === 'meters') {
-      if (meters < DISTANCE_THRESHOLDS.metersToKilometers) {
-        // Use meters for short distances
-        if (meters < DISTANCE_THRESHOLDS.highPrecisionMeters) {
-          // High precision for very short distances
-          return `${meters.toFixed(2)} m`
-        }
-        return `${meters.toFixed(0)} m`
-      } else {
-        // Use kilometers for long distances
-        const km = meters / 1000
-        return `${km.toFixed(precision)} km`
-      }
-    }
+    const display = resolveDisplayUnit(meters, unit, precision)
+    const value = meters / DISTANCE_UNIT_FACTORS[display.unit]
+    return `${formatNumber(value, display.digits)} ${DISTANCE_UNIT_LABELS[display.unit]}`
+  }
 
-    // Miles conversion
-    if (unit === 'miles') {
-      const miles = meters * 0.000621371
-      if (miles < 0.1) {
-        // Use feet for short distances
-        const feet = meters * 3.28084
-        return `${feet.toFixed(0)} ft`
-      }
-      return `${miles.toFixed(precision)} mi`
+  /**
+   * Round a bearing to the nearest multiple of a step (e.g. 15° or 90°)
+   * 
+   * @param bearing - Bearing in degrees
+   * @param stepDegrees - Snap increment in degrees
+   * @returns Snapped bearing (0-360)
+   */
+  function snapBearing(bearing: number, stepDegrees: number): number {
+    return normalizeBearing(Math.round(bearing / stepDegrees) * stepDegrees)
+  }
+
+  /**
+   * Format a bearing in degrees using the selected number format
+   * 
+   * @param degrees - Bearing in degrees (any range, normalized to 0-360)
+   * @param precision - Number of decimal places (default: 1)
+   * @returns Formatted bearing string (e.g., "45.0°")
+   */
+  function formatBearing(degrees: number, precision: number = 1): string {
+    return `${formatNumber(normalizeBearing(degrees), precision)}°`
+  }
+
+  /**
+   * Parse a typed distance such as "42.195 km", "26.2 mi" or "500 m"
+   * A bare number is read in the selected display unit
+   * 
+   * @param text - Typed distance
+   * @param unit - Unit for numbers without one (defaults to the selected display unit)
+   * @returns Distance in meters, or null if the text is not a positive distance
+   */
+  function parseDistance(text: string, unit: DistanceUnit = distanceUnit.value): number | null {
+    const match = text.trim().match(/^([-\d.,\s\u00a0\u202f]*\d)\s*([a-z\s-]*)$/i)
+    if (!match) return null
+
+    const value = parseTypedNumber(match[1]!)
+    const suffix = match[2]!.trim().toLowerCase()
+    const parsedUnit = suffix ? DISTANCE_UNIT_ALIASES[suffix] : unit
+    if (value === null || !parsedUnit || value <= 0) return null
+
+    return value * DISTANCE_UNIT_FACTORS[parsedUnit]
+  }
+
+  /**
+   * Parse a typed bearing such as "135", "135°" or "-45" (normalized to 0-360)
+   * 
+   * @returns Bearing in degrees, or null if the text is not a number
+   */
+  function parseBearing(text: string): number | null {
+    const value = parseTypedNumber(text.trim().replace(/°$/, ''))
+    return value === null ? null : normalizeBearing(value)
+  }
+
+  /**
+   * Format area value in the requested unit
+   * 
+   * @param squareMeters - Area in square meters
+   * @param unit - Target unit (default: square kilometers, m² below 0.01 km²)
+   * @param precision - Number of decimal places (default: 2)
+   * @returns Formatted area string (e.g., "219.40 km²")
+   */
+  function formatArea(
+    squareMeters: number,
+    unit: AreaUnit = 'square-kilometers',
+    precision: number = 2
+  ): string {
+    if (squareMeters < 0.01) {
+      return `${formatNumber(0, 0)} ${AREA_UNIT_LABELS['square-meters']}`
     }
 
-    // Feet conversion
-    if (unit === 'feet') {
-      const feet = meters * 3.28084
-      return `${feet.toFixed(precision)} ft`
+    // Auto-downgrade tiny km² values to m²
+    if (unit === 'square-kilometers' && squareMeters < AREA_UNIT_FACTORS['square-kilometers'] / 100) {
+      return `${formatNumber(squareMeters, 0)} ${AREA_UNIT_LABELS['square-meters']}`
     }
 
-    // Fallback to meters
-    return `${meters.toFixed(precision)} m`
+    const value = squareMeters / AREA_UNIT_FACTORS[unit]
+    const digits = unit === 'square-meters' ? 0 : precision
+    return `${formatNumber(value, digits)} ${AREA_UNIT_LABELS[unit]}`
   }
 
   /**
@@ -206,26 +760,43 @@ export function useGeodesic() {
   }
 
   /**
-   * Calculate midpoint between two coordinates
-   * Useful for determining rotation anchor point
+   * Calculate the geodesic midpoint between two coordinates
+   * Halfway along the geodesic under the active Earth model, so both halves
+   * measure exactly the same distance
    * 
    * @param start - Start coordinate
    * @param end - End coordinate
    * @returns Midpoint coordinate
    */
   function calculateMidpoint(start: Coordinate, end: Coordinate): Coordinate {
-    // Simple midpoint (not geodesic - sufficient for visualization)
-    return {
-      lat: (start.lat + end.lat) / 2,
-      lng: (start.lng + end.lng) / 2,
-    }
+    const distance = calculateDistance(start.lat, start.lng, end.lat, end.lng)
+    if (distance === 0) return { ...start }
+    return calculateDestinationPoint(start, distance / 2, calculateBearing(start, end))
   }
 
   return {
+    // State
+    geodesicModel,
+    distanceUnit,
+    numberLocale,
+
+    // Methods
+    setGeodesicModel,
+    setDistanceUnit,
+    setNumberLocale,
     calculateDistance,
+    calculatePathDistance,
+    calculatePolygonPerimeter,
+    calculatePolygonArea,
     calculateBearing,
     calculateDestinationPoint,
+    snapBearing,
     formatDistance,
+    formatBearing,
+    formatArea,
+    formatNumber,
+    parseDistance,
+    parseBearing,
     isValidCoordinate,
     clampCoordinate,
     calculateMidpoint,
@@ -0,0 +1,246 @@
+/**
+ * Geodesic path composable
+ * Densifies lines along the geodesic so they render as true great-circle arcs
+ * in Web Mercator, and splits them where they cross the antimeridian
+ * (polygon rings are unwrapped instead so their fill stays intact)
+ */
+
+import type { Coordinate } from '../types/map.types'
+import { useGeodesic } from './useGeodesic'
+import { GEODESIC_PATH_CONFIG } from '../config/map.config'
+
+// Web Mercator ground resolution at the equator for zoom 0 (meters per pixel)
+const METERS_PER_PIXEL_ZOOM_0 = 156543.03392
+
+/**
+ * Composable for building renderable geodesic paths
+ */
+export function useGeodesicPath() {
+  const { calculateDistance, calculateBearing, calculateDestinationPoint } =
+    useGeodesic()
+
+  /**
+   * Determine segment count from line length and zoom level
+   * Longer lines, higher zoom levels and higher latitudes (where Mercator
+   * stretches the map) get more vertices
+   * 
+   * @param distanceMeters - Geodesic length of the line
+   * @param zoom - Current map zoom level
+   * @param latitude - Latitude of the line's midpoint in degrees
+   * @returns Number of segments (between configured min and max)
+   */
+  function getSegmentCount(distanceMeters: number, zoom: number, latitude: number = 0): number {
+    const maxLatitude = GEODESIC_PATH_CONFIG.maxStretchLatitude
+    const clampedLatitude = Math.min(Math.max(latitude, -maxLatitude), maxLatitude)
+    const metersPerPixel =
+      (METERS_PER_PIXEL_ZOOM_0 * Math.cos((clampedLatitude * Math.PI) / 180)) / Math.pow(2, zoom)
+    const lengthPixels = distanceMeters / metersPerPixel
+    const segments = Math.ceil(lengthPixels / GEODESIC_PATH_CONFIG.pixelsPerSegment)
+
+    return Math.max(
+      GEODESIC_PATH_CONFIG.minSegments,
+      Math.min(GEODESIC_PATH_CONFIG.maxSegments, segments)
+    )
+  }
+
+  /**
+   * Interpolate vertices along the geodesic between two points
+   * 
+   * @param start - Start coordinate
+   * @param end - End coordinate
+   * @param zoom - Current map zoom level (controls vertex density)
+   * @returns Ordered vertices from start to end (inclusive)
+   */
+  function densify(start: Coordinate, end: Coordinate, zoom: number): Coordinate[] {
+    const distance = calculateDistance(start.lat, start.lng, end.lat, end.lng)
+    const bearing = calculateBearing(start, end)
+    const middle = calculateDestinationPoint(start, distance / 2, bearing)
+    const segments = getSegmentCount(distance, zoom, middle.lat)
+
+    if (segments <= 1) {
+      return [start, end]
+    }
+
+    const points: Coordinate[] = [start]
+
+    for (let i = 1; i < segments; i++) {
+      points.push(calculateDestinationPoint(start, (distance * i) / segments, bearing))
+    }
+
+    points.push(end)
+    return points
+  }
+
+  /**
+   * Split a vertex list into parts wherever it crosses the antimeridian
+   * Each crossing is closed at ±180° with an interpolated latitude so the
+   * parts meet at the map edge instead of spanning the whole world
+   * 
+   * @param points - Vertices with longitudes in -180..180
+   * @returns One or more parts suitable for a Leaflet multi-polyline
+   */
+  function splitAtAntimeridian(points: Coordinate[]): Coordinate[][] {
+    if (points.length === 0) return []
+
+    const parts: Coordinate[][] = []
+    let current: Coordinate[] = [points[0]!]
+
+    for (let i = 1; i < points.length; i++) {
+      const prev = points[i - 1]!
+      const next = points[i]!
+      const Δlng = next.lng - prev.lng
+
+      if (Math.abs(Δlng) > 180) {
+        // Unwrap next longitude so the segment is continuous, then find crossing
+        const edge = prev.lng > 0 ? 180 : -180
+        const unwrappedLng = next.lng + (Δlng < 0 ? 360 : -360)
+        const t = (edge - prev.lng) / (unwrappedLng - prev.lng)
+        const crossingLat = prev.lat + t * (next.lat - prev.lat)
+
+        current.push({ lat: crossingLat, lng: edge })
+        parts.push(current)
+        current = [{ lat: crossingLat, lng: -edge }]
+      }
+
+      current.push(next)
+    }
+
+    parts.push(current)
+    return parts
+  }
+
+  /**
+   * Build the renderable path through a sequence of vertices
+   * Each segment is densified independently along its own geodesic
+   * 
+   * @param vertices - Ordered path vertices (at least one)
+   * @param zoom - Current map zoom level
+   * @returns Leaflet-ready lat/lng arrays (one per antimeridian-split part)
+   */
+  function buildPathThrough(
+    vertices: Coordinate[],
+    zoom: number
+  ): [number, number][][] {
+    const points: Coordinate[] = vertices.slice(0, 1)
+
+    for (let i = 1; i < vertices.length; i++) {
+      points.push(...densify(vertices[i - 1]!, vertices[i]!, zoom).slice(1))
+    }
+
+    return splitAtAntimeridian(points).map((part) =>
+      part.map((p): [number, number] => [p.lat, p.lng])
+    )
+  }
+
+  /**
+   * Build the renderable ring for a closed polygon
+   * Rings are not split at the antimeridian (that would break the fill);
+   * instead longitudes are unwrapped so the ring stays continuous and may
+   * extend past ±180° into the neighbouring world copy
+   * 
+   * @param vertices - Ring vertices (first vertex not repeated at the end)
+   * @param zoom - Current map zoom level
+   * @returns Leaflet-ready lat/lng ring
+   */
+  function buildRingThrough(
+    vertices: Coordinate[],
+    zoom: number
+  ): [number, number][] {
+    if (vertices.length === 0) return []
+
+    const closed = [...vertices, vertices[0]!]
+    const ring: [number, number][] = [[closed[0]!.lat, closed[0]!.lng]]
+    let offset = 0
+
+    for (let i = 1; i < closed.length; i++) {
+      const segment = densify(closed[i - 1]!, closed[i]!, zoom).slice(1)
+      for (const point of segment) {
+        const prevLng = ring[ring.length - 1]![1]
+        let lng = point.lng + offset
+        if (lng - prevLng > 180) offset -= 360
+        if (lng - prevLng < -180) offset += 360
+        lng = point.lng + offset
+        ring.push([point.lat, lng])
+      }
+    }
+
+    // Drop the closing duplicate - Leaflet polygons close themselves
+    ring.pop()
+    return ring
+  }
+
+  /**
+   * Build the renderable path for a line between two points
+   * 
+   * @param start - Start coordinate
+   * @param end - End coordinate
+   * @param zoom - Current map zoom level
+   * @returns Leaflet-ready lat/lng arrays (one per antimeridian-split part)
+   */
+  function buildPath(
+    start: Coordinate,
+    end: Coordinate,
+    zoom: number
+  ): [number, number][][] {
+    return buildPathThrough([start, end], zoom)
+  }
+
+  /**
+   * Locate the point a given distance along a path (each leg follows its geodesic)
+   * Distances beyond the path length clamp to the last vertex
+   * 
+   * @param vertices - Ordered path vertices (at least one)
+   * @param distanceMeters - Distance from the first vertex
+   * @returns The point and the direction of travel there (bearing in degrees)
+   */
+  function pointAlongPath(
+    vertices: Coordinate[],
+    distanceMeters: number
+  ): { point: Coordinate; bearing: number } {
+    let remaining = Math.max(0, distanceMeters)
+
+    for (let i = 1; i < vertices.length; i++) {
+      const from = vertices[i - 1]!
+      const to = vertices[i]!
+      const legLength = calculateDistance(from.lat, from.lng, to.lat, to.lng)
+
+      if (remaining <= legLength || i === vertices.length - 1) {
+        const legBearing = calculateBearing(from, to)
+        if (remaining <= 0) {
+          return { point: from, bearing: legBearing }
+        }
+
+        const point =
+          remaining >= legLength ? to : calculateDestinationPoint(from, remaining, legBearing)
+        return { point, bearing: calculateFinalBearing(from, point) }
+      }
+
+      remaining -= legLength
+    }
+
+    return { point: vertices[0]!, bearing: 0 }
+  }
+
+  /**
+   * Direction of travel at the end of the line (final bearing)
+   * Used to orient the arrow marker along the rendered arc
+   * 
+   * @param start - Start coordinate
+   * @param end - End coordinate
+   * @returns Bearing in degrees (0-360)
+   */
+  function calculateFinalBearing(start: Coordinate, end: Coordinate): number {
+    return (calculateBearing(end, start) + 180) % 360
+  }
+
+  return {
+    getSegmentCount,
+    densify,
+    splitAtAntimeridian,
+    buildPath,
+    buildPathThrough,
+    buildRingThrough,
+    pointAlongPath,
+    calculateFinalBearing,
+  }
+}
@@ -7,6 +7,7 @@
 import { ref, shallowRef, onMounted, onUnmounted, type Ref } from 'vue'
 import L from 'leaflet'
 import type { Coordinate, MapConfig, TileLayerConfig, LoadingState } from '../types/map.types'
+import { createCachedTileLayer } from './useTileCache'
 
 export interface UseLeafletMapOptions {
   /** DOM element reference for map container */
@@ -28,6 +29,23 @@ export function useLeafletMap(options: UseLeafletMapOptions) {
   const loadingState = ref<LoadingState>('idle')
   const error = ref<{ message: string; code: string } | null>(null)
 
+  /**
+   * Build a Leaflet tile layer from a tile source configuration
+   * Remote tiles go through the offline tile cache
+   */
+  const createTileLayer = (source: TileLayerConfig): L.TileLayer => {
+    return createCachedTileLayer(source.urlTemplate, {
+      attribution: source.attribution,
+      // Providers stopping short of the map's max zoom get their deepest tiles upscaled
+      maxNativeZoom: source.maxZoom,
+      maxZoom: Math.max(source.maxZoom, config.maxZoom),
+      minZoom: source.minZoom,
+      subdomains: source.subdomains || ['a', 'b', 'c'],
+      // CORS-enabled tiles can be copied into snapshot images
+      crossOrigin: true,
+    })
+  }
+
   // T014: Initialize map on mount
   onMounted(() => {
     if (!container.value) {
@@ -53,13 +71,7 @@ export function useLeafletMap(options: UseLeafletMapOptions) {
       })
 
       // Create and add tile layer
-      tileLayer.value = L.tileLayer(tileConfig.urlTemplate, {
-        attribution: tileConfig.attribution,
-        maxZoom: tileConfig.maxZoom,
-        minZoom: tileConfig.minZoom,
-        subdomains: tileConfig.subdomains || ['a', 'b', 'c'],
-      })
-
+      tileLayer.value = createTileLayer(tileConfig)
       tileLayer.value.addTo(map.value)
 
       // Mark as ready
@@ -132,6 +144,19 @@ export function useLeafletMap(options: UseLeafletMapOptions) {
     map.value.invalidateSize()
   }
 
+  /**
+   * Swap the basemap
+   * The old layer is removed after the new one is added, so the attribution
+   * control drops the old provider's credit and never shows an empty map
+   */
+  const setTileLayer = (source: TileLayerConfig): void => {
+    if (!map.value) return
+
+    const previous = tileLayer.value
+    tileLayer.value = createTileLayer(source).addTo(map.value)
+    previous?.remove()
+  }
+
   const getBounds = () => {
     if (!map.value) return null
     const bounds = map.value.getBounds()
@@ -146,6 +171,7 @@ export function useLeafletMap(options: UseLeafletMapOptions) {
   return {
     // T017: State
     map,
+    tileLayer,
     isReady,
     loadingState,
     error,
@@ -159,5 +185,6 @@ export function useLeafletMap(options: UseLeafletMapOptions) {
     zoomOut,
     invalidateSize,
     getBounds,
+    setTileLayer,
   }
 }
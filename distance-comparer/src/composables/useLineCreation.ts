@@ -1,52 +1,94 @@
 /**
  * Line Creation Composable
  * T011, T015: Two-click creation workflow with preview line
+ * Path/polygon mode: each click appends a vertex, double-click or finish() ends it
+ * Preview line is drawn as a densified great-circle arc
+ * Vertices come from Leaflet clicks (taps included, pans excluded); the preview
+ * follows pointer events so mouse, pen and touch all work
  * Based on quickstart.md Phase 4
  */
 
 import { ref, computed, shallowRef } from 'vue'
 import type { Ref } from 'vue'
 import L from 'leaflet'
-import type { Coordinate } from '../types/map.types'
-import { PREVIEW_LINE_STYLE } from '../config/map.config'
+import type { Coordinate, MeasurementMode } from '../types/map.types'
+import { PREVIEW_LINE_STYLE, PATH_CREATION_CONFIG } from '../config/map.config'
+import { useGeodesicPath } from './useGeodesicPath'
+import { usePointerInput } from './usePointerInput'
 
 export interface UseLineCreationOptions {
   /** Leaflet map instance */
   map: Ref<L.Map | null>
+  /** Preview line colour (defaults to PREVIEW_LINE_STYLE colour) */
+  color?: string
+  /** Measurement mode (defaults to two-click line) */
+  mode?: Ref<MeasurementMode>
   /** Callback when line is created (receives start and end coordinates) */
   onLineCreated: (start: Coordinate, end: Coordinate) => void
+  /** Callback when a multi-segment path is finished (receives all vertices) */
+  onPathCreated?: (vertices: Coordinate[]) => void
+  /** Callback when a polygon is finished (receives ring vertices, not closed) */
+  onPolygonCreated?: (vertices: Coordinate[]) => void
 }
 
 /**
- * Composable for two-click line creation workflow
+ * Composable for line creation workflow
  * T011: Manages creation state (inactive → awaiting-first-click → awaiting-second-click)
  * T015: Displays preview line that follows cursor
  */
 export function useLineCreation(options: UseLineCreationOptions) {
-  const { map, onLineCreated } = options
+  const {
+    map,
+    color = PREVIEW_LINE_STYLE.color,
+    mode = ref<MeasurementMode>('line'),
+    onLineCreated,
+    onPathCreated,
+    onPolygonCreated,
+  } = options
+  const { buildPathThrough } = useGeodesicPath()
+  const { inputMode, pointerEventToCoordinate } = usePointerInput()
 
   // Creation state (per data-model.md LineCreationState)
   const isActive = ref(false)
-  const firstClick = ref<Coordinate | null>(null)
+  const vertices = ref<Coordinate[]>([])
   
   // T015: Preview line (dashed style, follows cursor)
   const previewLine = shallowRef<L.Polyline | null>(null)
 
   // Computed state
+  const firstClick = computed<Coordinate | null>(() => vertices.value[0] ?? null)
   const isAwaitingSecondClick = computed(
     () => isActive.value && firstClick.value !== null
   )
+  const vertexCount = computed(() => vertices.value.length)
+  const isMultiVertexMode = computed(
+    () => mode.value === 'path' || mode.value === 'polygon'
+  )
+  const canFinish = computed(
+    () =>
+      isActive.value &&
+      isMultiVertexMode.value &&
+      vertices.value.length >= (mode.value === 'polygon' ? 3 : 2)
+  )
 
   /**
    * T011: Activate line creation mode
    * Changes cursor to crosshair, enters awaiting-first-click state
+   * Path/polygon mode disables double-click zoom so double-click can finish
    */
   function activate(): void {
     isActive.value = true
-    firstClick.value = null
+    vertices.value = []
+    removePreviewLine()
 
     if (map.value) {
       map.value.getContainer().style.cursor = 'crosshair'
+
+      if (isMultiVertexMode.value) {
+        map.value.doubleClickZoom.disable()
+      } else {
+        map.value.doubleClickZoom.enable()
+      }
     }
   }
 
@@ -56,18 +98,36 @@ export function useLineCreation(options: UseLineCreationOptions) {
    */
   function deactivate(): void {
     isActive.value = false
-    firstClick.value = null
+    vertices.value = []
     removePreviewLine()
 
     if (map.value) {
       map.value.getContainer().style.cursor = ''
+      map.value.doubleClickZoom.enable()
     }
   }
 
+  /**
+   * Whether a click lands on (or very near) the last placed vertex
+   * Filters the second click of a double-click in path/polygon mode
+   */
+  function isRepeatOfLastVertex(coord: Coordinate): boolean {
+    const last = vertices.value[vertices.value.length - 1]
+    if (!last || !map.value) return false
+
+    const a = map.value.latLngToContainerPoint([last.lat, last.lng])
+    const b = map.value.latLngToContainerPoint([coord.lat, coord.lng])
+    const tolerance =
+      inputMode.value === 'touch'
+        ? PATH_CREATION_CONFIG.touchDuplicateVertexTolerancePx
+        : PATH_CREATION_CONFIG.duplicateVertexTolerancePx
+    return a.distanceTo(b) <= tolerance
+  }
+
   /**
    * T011: Handle map click during creation mode
-   * First click: Store start point, enter awaiting-second-click state
-   * Second click: Complete line creation, deactivate mode
+   * Line mode - first click: store start point; second click: complete line
+   * Path/polygon mode - every click appends a vertex
    */
   function handleMapClick(e: L.LeafletMouseEvent): void {
     if (!isActive.value) return
@@ -77,31 +137,67 @@ export function useLineCreation(options: UseLineCreationOptions) {
       lng: e.latlng.lng,
     }
 
+    if (isMultiVertexMode.value) {
+      if (isRepeatOfLastVertex(clickCoord)) return
+
+      vertices.value = [...vertices.value, clickCoord]
+      if (!previewLine.value) {
+        createPreviewLine(clickCoord)
+      }
+      updatePreviewLine(clickCoord)
+      return
+    }
+
     if (!firstClick.value) {
       // First click: Set start point
-      firstClick.value = clickCoord
+      vertices.value = [clickCoord]
       createPreviewLine(clickCoord)
     } else {
       // Second click: Complete line
+      const start = firstClick.value
       removePreviewLine()
-      onLineCreated(firstClick.value, clickCoord)
+      onLineCreated(start, clickCoord)
       deactivate()
     }
   }
 
   /**
-   * T015: Handle mouse move to update preview line
-   * Only active when awaiting second click
+   * Handle map double-click: finishes the path/polygon
    */
-  function handleMouseMove(e: L.LeafletMouseEvent): void {
-    if (!isAwaitingSecondClick.value || !map.value) return
+  function handleMapDoubleClick(e: L.LeafletMouseEvent): void {
+    if (!isActive.value || !isMultiVertexMode.value) return
 
-    const currentCoord: Coordinate = {
-      lat: e.latlng.lat,
-      lng: e.latlng.lng,
+    L.DomEvent.stop(e.originalEvent)
+    finish()
+  }
+
+  /**
+   * Finish path/polygon creation with the vertices placed so far
+   * Requires at least two vertices (three for polygons); otherwise does nothing
+   */
+  function finish(): void {
+    if (!canFinish.value) return
+
+    const finalVertices = [...vertices.value]
+    const isPolygon = mode.value === 'polygon'
+    removePreviewLine()
+    if (isPolygon) {
+      onPolygonCreated?.(finalVertices)
+    } else {
+      onPathCreated?.(finalVertices)
     }
+    deactivate()
+  }
 
-    updatePreviewLine(currentCoord)
+  /**
+   * T015: Handle pointer move to update preview line
+   * Only active when awaiting second click; touch moves pan the map instead
+   */
+  function handlePointerMove(e: PointerEvent): void {
+    if (!isAwaitingSecondClick.value || !map.value) return
+    if (e.pointerType === 'touch') return
+
+    updatePreviewLine(pointerEventToCoordinate(map.value, e))
   }
 
   /**
@@ -114,10 +210,10 @@ export function useLineCreation(options: UseLineCreationOptions) {
     previewLine.value = L.polyline(
       [
         [start.lat, start.lng],
-        [start.lat, start.lng], // Will update on mousemove
+        [start.lat, start.lng], // Will update on pointermove
       ],
       {
-        color: PREVIEW_LINE_STYLE.color,
+        color,
         weight: PREVIEW_LINE_STYLE.weight,
         opacity: PREVIEW_LINE_STYLE.opacity,
         dashArray: PREVIEW_LINE_STYLE.dashArray,
@@ -127,14 +223,20 @@ export function useLineCreation(options: UseLineCreationOptions) {
 
   /**
    * T015: Update preview line endpoint as cursor moves
+   * Follows the geodesic through all placed vertices to the cursor
+   * (and back to the first vertex in polygon mode)
    */
   function updatePreviewLine(end: Coordinate): void {
-    if (!previewLine.value || !firstClick.value) return
+    if (!previewLine.value || !firstClick.value || !map.value) return
+
+    const previewVertices = [...vertices.value, end]
+    if (mode.value === 'polygon' && vertices.value.length >= 2) {
+      previewVertices.push(firstClick.value)
+    }
 
-    previewLine.value.setLatLngs([
-      [firstClick.value.lat, firstClick.value.lng],
-      [end.lat, end.lng],
-    ])
+    previewLine.value.setLatLngs(
+      buildPathThrough(previewVertices, map.value.getZoom())
+    )
   }
 
   /**
@@ -152,11 +254,16 @@ export function useLineCreation(options: UseLineCreationOptions) {
     isActive,
     isAwaitingSecondClick,
     firstClick,
+    vertices,
+    vertexCount,
+    canFinish,
     
     // Methods
     activate,
     deactivate,
+    finish,
     handleMapClick,
-    handleMouseMove,
+    handleMapDoubleClick,
+    handlePointerMove,
   }
 }
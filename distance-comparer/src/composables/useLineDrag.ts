@@ -2,27 +2,41 @@
  * T023: Line Endpoint Drag Composable
  * Manages draggable endpoint interactions with real-time line updates
  * FIXED: Use map events instead of Leaflet.Draggable for proper lat/lng tracking
+ * Pointer events (mouse, touch, pen); Leaflet pan/pinch-zoom suspended while dragging
+ * Supports intermediate path vertices (numeric handles) alongside start/end
+ * and grabbing the line body to move the whole line
  */
 import { ref, shallowRef, type Ref } from 'vue'
 import L from 'leaflet'
-import type { Coordinate } from '../types/map.types'
+import type { Coordinate, LineHandle } from '../types/map.types'
+import { usePointerInput } from './usePointerInput'
 
 interface UseLineDragOptions {
   /** Leaflet map instance */
   map: Ref<L.Map | null>
   /** Callback when drag operation starts */
-  onDragStart?: (endpoint: 'start' | 'end', position: Coordinate) => void
-  /** Callback during drag (called with debounce) */
-  onDrag?: (endpoint: 'start' | 'end', position: Coordinate) => void
+  onDragStart?: (endpoint: LineHandle, position: Coordinate) => void
+  /** Callback during drag (called with debounce; event carries modifier keys) */
+  onDrag?: (endpoint: LineHandle, position: Coordinate, event: PointerEvent) => void
   /** Callback when drag operation ends */
-  onDragEnd?: (endpoint: 'start' | 'end', position: Coordinate) => void
+  onDragEnd?: (endpoint: LineHandle, position: Coordinate, event: PointerEvent) => void
+  /** Callback when the line body is grabbed (grab: where the line was grabbed) */
+  onMoveStart?: (grab: Coordinate) => void
+  /** Callback while the line body is dragged (debounced like onDrag) */
+  onMove?: (grab: Coordinate, position: Coordinate, event: PointerEvent) => void
+  /** Callback when the line body is released */
+  onMoveEnd?: (grab: Coordinate, position: Coordinate, event: PointerEvent) => void
   /** Debounce interval for drag updates in milliseconds (default: 16ms for 60fps) */
   debounceMs?: number
 }
 
 interface DraggableEndpoint {
   marker: L.Marker | L.CircleMarker
-  type: 'start' | 'end'
+  type: LineHandle
+  /** DOM element the pointerdown listener is attached to */
+  element: HTMLElement | SVGElement | null
+  /** Attached pointerdown listener (kept for removal) */
+  onPointerDown: (e: PointerEvent) => void
 }
 
 export function useLineDrag(options: UseLineDragOptions) {
@@ -31,35 +45,69 @@ export function useLineDrag(options: UseLineDragOptions) {
     onDragStart,
     onDrag,
     onDragEnd,
+    onMoveStart,
+    onMove,
+    onMoveEnd,
     debounceMs = 16, // T025: 16ms debounce for 60fps
   } = options
+  const { pointerEventToCoordinate } = usePointerInput()
 
   // T023: Drag state management
   const isDragging = ref(false)
-  const draggedEndpoint = ref<'start' | 'end' | null>(null)
+  const draggedEndpoint = ref<LineHandle | null>(null)
 
   // Store draggable endpoints
-  const draggableEndpoints = shallowRef<Map<'start' | 'end', DraggableEndpoint>>(new Map())
+  const draggableEndpoints = shallowRef<Map<LineHandle, DraggableEndpoint>>(new Map())
+
+  // Whole-line move: draggable line body, where it was grabbed and the latest position
+  const isMovingLine = ref(false)
+  let draggableBody: { element: HTMLElement | SVGElement; onPointerDown: (e: PointerEvent) => void } | null = null
+  let moveGrab: Coordinate | null = null
+  let movePosition: Coordinate | null = null
 
   // Debounce timer for drag updates
   let dragDebounceTimer: ReturnType<typeof setTimeout> | null = null
 
+  // Pointer that started the drag (other fingers are ignored)
+  let activePointerId: number | null = null
+
+  // Map handlers suspended during the drag, restored afterwards
+  let suspendedTouchZoom = false
+
   /**
-   * Handle map mousemove during drag
+   * Handle pointermove during drag (mouse, touch or pen)
+   * Listens on the document so the drag survives handle re-rendering
    */
-  const handleMapMouseMove = (e: L.LeafletMouseEvent): void => {
-    if (!isDragging.value || !draggedEndpoint.value) return
+  const handlePointerMove = (e: PointerEvent): void => {
+    if (e.pointerId !== activePointerId || !map.value) return
+
+    if (isMovingLine.value && moveGrab) {
+      e.preventDefault()
+
+      const grab = moveGrab
+      const position = pointerEventToCoordinate(map.value, e)
+      movePosition = position
+
+      if (dragDebounceTimer) {
+        clearTimeout(dragDebounceTimer)
+      }
+      dragDebounceTimer = setTimeout(() => {
+        onMove?.(grab, position, e)
+      }, debounceMs)
+      return
+    }
+
+    if (!isDragging.value || draggedEndpoint.value === null) return
 
     const endpoint = draggableEndpoints.value.get(draggedEndpoint.value)
     if (!endpoint) return
 
-    // Update marker position to follow mouse
-    endpoint.marker.setLatLng(e.latlng)
+    e.preventDefault()
 
-    const position: Coordinate = {
-      lat: e.latlng.lat,
-      lng: e.latlng.lng,
-    }
+    const position = pointerEventToCoordinate(map.value, e)
+
+    // Update marker position to follow the pointer
+    endpoint.marker.setLatLng([position.lat, position.lng])
 
     // T025: Debounce drag updates
     if (dragDebounceTimer) {
@@ -67,15 +115,82 @@ export function useLineDrag(options: UseLineDragOptions) {
     }
 
     dragDebounceTimer = setTimeout(() => {
-      onDrag?.(draggedEndpoint.value!, position)
+      onDrag?.(draggedEndpoint.value!, position, e)
     }, debounceMs)
   }
 
   /**
-   * Handle map mouseup during drag
+   * Stop listening and restore map interaction after a drag
+   */
+  const releasePointer = (): void => {
+    document.removeEventListener('pointermove', handlePointerMove)
+    document.removeEventListener('pointerup', handlePointerUp)
+    document.removeEventListener('pointercancel', handlePointerUp)
+    activePointerId = null
+
+    if (map.value) {
+      map.value.dragging.enable()
+      if (suspendedTouchZoom) {
+        map.value.touchZoom.enable()
+      }
+    }
+    suspendedTouchZoom = false
+  }
+
+  /**
+   * Take over a pointer for a drag: keep Leaflet from starting a pan or
+   * pinch-zoom for it and follow it on the document
+   */
+  const capturePointer = (e: PointerEvent): void => {
+    if (!map.value) return
+
+    L.DomEvent.stopPropagation(e)
+    e.preventDefault()
+
+    map.value.dragging.disable()
+    if (map.value.touchZoom.enabled()) {
+      map.value.touchZoom.disable()
+      suspendedTouchZoom = true
+    }
+
+    activePointerId = e.pointerId
+
+    document.addEventListener('pointermove', handlePointerMove, { passive: false })
+    document.addEventListener('pointerup', handlePointerUp)
+    document.addEventListener('pointercancel', handlePointerUp)
+  }
+
+  /**
+   * Handle pointerup/pointercancel during drag
    */
-  const handleMapMouseUp = (): void => {
-    if (!isDragging.value || !draggedEndpoint.value || !map.value) return
+  const handlePointerUp = (e: PointerEvent): void => {
+    if (e.pointerId !== activePointerId) return
+
+    if (isMovingLine.value && moveGrab) {
+      const grab = moveGrab
+      const position = movePosition ?? grab
+
+      if (dragDebounceTimer) {
+        clearTimeout(dragDebounceTimer)
+        dragDebounceTimer = null
+      }
+      if (draggableBody) {
+        draggableBody.element.style.cursor = 'move'
+      }
+
+      releasePointer()
+      isMovingLine.value = false
+      moveGrab = null
+      movePosition = null
+
+      onMoveEnd?.(grab, position, e)
+      return
+    }
+
+    if (!isDragging.value || draggedEndpoint.value === null || !map.value) {
+      releasePointer()
+      return
+    }
 
     const currentDraggedEndpoint = draggedEndpoint.value
     const endpoint = draggableEndpoints.value.get(currentDraggedEndpoint)
@@ -88,64 +203,49 @@ export function useLineDrag(options: UseLineDragOptions) {
 
     // Update final position
     const finalLatLng = endpoint?.marker.getLatLng()
-    if (finalLatLng) {
-      const position: Coordinate = {
-        lat: finalLatLng.lat,
-        lng: finalLatLng.lng,
-      }
+    const position: Coordinate | null = finalLatLng
+      ? { lat: finalLatLng.lat, lng: finalLatLng.lng }
+      : null
 
-      // T030: Reset cursor
-      if (endpoint) {
-        const element = endpoint.marker.getElement() as HTMLElement | null
-        if (element) {
-          element.style.cursor = 'grab'
-        }
-      }
-
-      // Re-enable map dragging
-      map.value.dragging.enable()
+    // T030: Reset cursor
+    const element = endpoint?.marker.getElement() as HTMLElement | null | undefined
+    if (element) {
+      element.style.cursor = 'grab'
+    }
 
-      // Remove map event listeners
-      map.value.off('mousemove', handleMapMouseMove)
-      map.value.off('mouseup', handleMapMouseUp)
+    releasePointer()
 
-      isDragging.value = false
-      draggedEndpoint.value = null
+    isDragging.value = false
+    draggedEndpoint.value = null
 
-      // T029: Trigger distance recalculation via callback
-      onDragEnd?.(currentDraggedEndpoint, position)
+    // T029: Trigger distance recalculation via callback
+    if (position) {
+      onDragEnd?.(currentDraggedEndpoint, position, e)
     }
   }
 
   /**
-   * T024: Make a marker endpoint draggable using map events
+   * T024: Make a marker endpoint draggable using pointer events
    */
   const makeDraggable = (
     marker: L.Marker | L.CircleMarker,
-    endpointType: 'start' | 'end'
+    endpointType: LineHandle
   ): void => {
     if (!map.value) {
       return
     }
 
-    // Store endpoint reference
-    draggableEndpoints.value.set(endpointType, {
-      marker,
-      type: endpointType,
-    })
+    // Replace any previous listener for this handle (markers are re-created on render)
+    removeDraggable(endpointType)
 
-    // T030: Set cursor to grab
-    const element = marker.getElement() as HTMLElement | null
-    if (element) {
-      element.style.cursor = 'grab'
-    }
+    const element = (marker.getElement() as HTMLElement | SVGElement | undefined) ?? null
 
-    // T026: Handle mousedown on marker to start drag
-    marker.on('mousedown', (e: L.LeafletMouseEvent) => {
-      if (!map.value) return
+    // T026: Handle pointerdown on marker to start drag
+    const onPointerDown = (e: PointerEvent): void => {
+      if (!map.value || isDragging.value || isMovingLine.value) return
+      if (e.pointerType === 'mouse' && e.button !== 0) return
 
-      // Prevent map from dragging
-      map.value.dragging.disable()
+      capturePointer(e)
 
       isDragging.value = true
       draggedEndpoint.value = endpointType
@@ -161,94 +261,163 @@ export function useLineDrag(options: UseLineDragOptions) {
         element.style.cursor = 'grabbing'
       }
 
-      // Add map event listeners
-      map.value.on('mousemove', handleMapMouseMove)
-      map.value.on('mouseup', handleMapMouseUp)
-
       onDragStart?.(endpointType, position)
+    }
+
+    if (element) {
+      // T030: Set cursor to grab; browser must not pan/scroll when the handle is touched
+      element.style.cursor = 'grab'
+      element.style.touchAction = 'none'
+      L.DomEvent.on(element as HTMLElement, 'pointerdown', onPointerDown as L.DomEvent.EventHandlerFn)
+    }
 
-      // Prevent event from propagating to map
-      L.DomEvent.stopPropagation(e.originalEvent)
+    // Store endpoint reference
+    draggableEndpoints.value.set(endpointType, {
+      marker,
+      type: endpointType,
+      element,
+      onPointerDown,
     })
   }
 
   /**
    * Remove draggable behavior from an endpoint
    */
-  const removeDraggable = (endpointType: 'start' | 'end'): void => {
+  const removeDraggable = (endpointType: LineHandle): void => {
     const endpoint = draggableEndpoints.value.get(endpointType)
     if (!endpoint) return
 
     // Remove marker event listeners
-    endpoint.marker.off('mousedown')
+    if (endpoint.element) {
+      L.DomEvent.off(
+        endpoint.element as HTMLElement,
+        'pointerdown',
+        endpoint.onPointerDown as L.DomEvent.EventHandlerFn
+      )
+    }
 
     draggableEndpoints.value.delete(endpointType)
   }
 
   /**
-   * Enable drag for both endpoints
+   * Make the line body (polyline or polygon) draggable to move the whole line
+   * The grab point is reported with every move so the caller can keep the line
+   * at the same offset from the pointer
    */
-  const enableDrag = (
-    startMarker: L.CircleMarker,
-    endMarker: L.Marker | L.CircleMarker
-  ): void => {
-    makeDraggable(startMarker, 'start')
-    makeDraggable(endMarker, 'end')
+  const makeBodyDraggable = (body: L.Path): void => {
+    removeBodyDraggable()
 
-    // T030: Set initial cursor to grab
-    const startElement = startMarker.getElement() as HTMLElement | null
-    if (startElement) {
-      startElement.style.cursor = 'grab'
-    }
-    const endElement = endMarker.getElement() as HTMLElement | null
-    if (endElement) {
-      endElement.style.cursor = 'grab'
+    const element = (body.getElement() as HTMLElement | SVGElement | undefined) ?? null
+    if (!element) return
+
+    const onPointerDown = (e: PointerEvent): void => {
+      if (!map.value || isDragging.value || isMovingLine.value) return
+      if (e.pointerType === 'mouse' && e.button !== 0) return
+
+      capturePointer(e)
+
+      isMovingLine.value = true
+      moveGrab = pointerEventToCoordinate(map.value, e)
+      movePosition = null
+      element.style.cursor = 'grabbing'
+
+      onMoveStart?.(moveGrab)
     }
+
+    element.style.cursor = 'move'
+    element.style.touchAction = 'none'
+    L.DomEvent.on(element as HTMLElement, 'pointerdown', onPointerDown as L.DomEvent.EventHandlerFn)
+
+    draggableBody = { element, onPointerDown }
   }
 
   /**
-   * Disable drag for both endpoints
+   * Remove draggable behavior from the line body
    */
-  const disableDrag = (): void => {
-    removeDraggable('start')
-    removeDraggable('end')
+  const removeBodyDraggable = (): void => {
+    if (!draggableBody) return
+
+    L.DomEvent.off(
+      draggableBody.element as HTMLElement,
+      'pointerdown',
+      draggableBody.onPointerDown as L.DomEvent.EventHandlerFn
+    )
+    draggableBody = null
   }
 
   /**
-   * Cleanup all draggable instances
+   * Abandon the current drag or move without a final callback
+   * (e.g. when a second finger turns it into a rotate gesture)
    */
-  const cleanup = (): void => {
-    // Clear debounce timer
+  const cancelDrag = (): void => {
     if (dragDebounceTimer) {
       clearTimeout(dragDebounceTimer)
       dragDebounceTimer = null
     }
 
-    // Remove map event listeners if still active
-    if (map.value) {
-      map.value.off('mousemove', handleMapMouseMove)
-      map.value.off('mouseup', handleMapMouseUp)
-      map.value.dragging.enable()
+    releasePointer()
+
+    isDragging.value = false
+    draggedEndpoint.value = null
+    isMovingLine.value = false
+    moveGrab = null
+    movePosition = null
+  }
+
+  /**
+   * Enable drag for both endpoints and any intermediate path vertices
+   * Vertex markers are keyed by their index in the line's vertex list
+   */
+  const enableDrag = (
+    startMarker: L.CircleMarker,
+    endMarker: L.Marker | L.CircleMarker,
+    vertexMarkers: L.CircleMarker[] = []
+  ): void => {
+    // Drop handles for vertices that no longer exist
+    for (const key of [...draggableEndpoints.value.keys()]) {
+      if (typeof key === 'number') removeDraggable(key)
+    }
+
+    makeDraggable(startMarker, 'start')
+    makeDraggable(endMarker, 'end')
+    vertexMarkers.forEach((marker, i) => makeDraggable(marker, i + 1))
+  }
+
+  /**
+   * Disable drag for all endpoints and vertices
+   */
+  const disableDrag = (): void => {
+    for (const key of [...draggableEndpoints.value.keys()]) {
+      removeDraggable(key)
     }
+    removeBodyDraggable()
+  }
+
+  /**
+   * Cleanup all draggable instances
+   */
+  const cleanup = (): void => {
+    // Remove pointer listeners, restore map interaction and reset state
+    cancelDrag()
 
     // Remove all draggable instances
     disableDrag()
-
-    // Reset state
-    isDragging.value = false
-    draggedEndpoint.value = null
   }
 
   return {
     // State
     isDragging,
     draggedEndpoint,
+    isMovingLine,
 
     // Methods
     makeDraggable,
     removeDraggable,
+    makeBodyDraggable,
+    removeBodyDraggable,
     enableDrag,
     disableDrag,
+    cancelDrag,
     cleanup,
   }
 }
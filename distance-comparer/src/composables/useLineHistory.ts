@@ -0,0 +1,151 @@
+/**
+ * Line History Composable
+ * Undo/redo for line operations (create, drag, rotate, move, edit, delete, reset)
+ * Each step stores every measured line before and after the operation, so undoing
+ * is restoring a snapshot rather than inverting the operation
+ */
+
+import { ref, computed } from 'vue'
+import type { HistoryAction, HistoryEntry, LineSnapshot } from '../types/map.types'
+import { HISTORY_CONFIG } from '../config/map.config'
+
+/**
+ * Options for useLineHistory
+ */
+export interface UseLineHistoryOptions {
+  /** Read the measured lines as they are now */
+  capture: () => LineSnapshot[]
+  /** Replace the measured lines with a recorded snapshot */
+  apply: (snapshot: LineSnapshot[]) => Promise<void>
+}
+
+/**
+ * Whether a keyboard event comes from a text field (keeps native text undo there)
+ */
+function isTextEntry(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT'
+  )
+}
+
+/**
+ * Composable for undoing and redoing line operations
+ */
+export function useLineHistory(options: UseLineHistoryOptions) {
+  const { capture, apply } = options
+
+  const undoStack = ref<HistoryEntry[]>([])
+  const redoStack = ref<HistoryEntry[]>([])
+  const isApplying = ref(false)
+
+  // Lines after the last recorded step (the "before" of the next one)
+  let present = capture()
+
+  // Computed state
+  const canUndo = computed(() => undoStack.value.length > 0 && !isApplying.value)
+  const canRedo = computed(() => redoStack.value.length > 0 && !isApplying.value)
+  const undoAction = computed(() => undoStack.value[undoStack.value.length - 1]?.action ?? null)
+  const redoAction = computed(() => redoStack.value[redoStack.value.length - 1]?.action ?? null)
+
+  /**
+   * Record the operation that just finished
+   * Ignored while a snapshot is being applied and when nothing changed
+   * (e.g. a handle released where it was grabbed)
+   */
+  function record(action: HistoryAction): void {
+    if (isApplying.value) return
+
+    const next = capture()
+    if (JSON.stringify(next) === JSON.stringify(present)) return
+
+    undoStack.value.push({ action, before: present, after: next })
+    if (undoStack.value.length > HISTORY_CONFIG.maxEntries) {
+      undoStack.value.shift()
+    }
+
+    redoStack.value = []
+    present = next
+  }
+
+  /**
+   * Restore a snapshot without recording the events it triggers
+   */
+  async function restore(snapshot: LineSnapshot[]): Promise<void> {
+    isApplying.value = true
+    try {
+      await apply(snapshot)
+    } finally {
+      isApplying.value = false
+    }
+
+    present = capture()
+  }
+
+  /**
+   * Revert the most recent step
+   */
+  async function undo(): Promise<void> {
+    if (!canUndo.value) return
+
+    const entry = undoStack.value.pop()!
+    redoStack.value.push(entry)
+    await restore(entry.before)
+  }
+
+  /**
+   * Re-apply the most recently undone step
+   */
+  async function redo(): Promise<void> {
+    if (!canRedo.value) return
+
+    const entry = redoStack.value.pop()!
+    undoStack.value.push(entry)
+    await restore(entry.after)
+  }
+
+  /**
+   * Forget all steps and start recording from the current lines
+   */
+  function clear(): void {
+    undoStack.value = []
+    redoStack.value = []
+    present = capture()
+  }
+
+  /**
+   * Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo
+   */
+  function handleKeydown(event: KeyboardEvent): void {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+    if (isTextEntry(event.target)) return
+
+    const key = event.key.toLowerCase()
+    if (key === 'z') {
+      event.preventDefault()
+      void (event.shiftKey ? redo() : undo())
+    } else if (key === 'y' && !event.shiftKey) {
+      event.preventDefault()
+      void redo()
+    }
+  }
+
+  return {
+    // State
+    canUndo,
+    canRedo,
+    undoAction,
+    redoAction,
+    isApplying,
+
+    // Methods
+    record,
+    undo,
+    redo,
+    clear,
+    handleKeydown,
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Line Manager Composable
+ * Keeps a collection of simultaneous measurements, each pairing a left-map line
+ * with its synchronized right-map counterpart
+ */
+
+import { ref, computed } from 'vue'
+import type { ManagedLine, MeasurementMode } from '../types/map.types'
+import { LINE_COLOR_PALETTE } from '../config/map.config'
+
+/**
+ * Composable for managing multiple distance lines
+ * Handles IDs, palette colours, selection, visibility and deletion
+ */
+export function useLineManager() {
+  const lines = ref<ManagedLine[]>([])
+  const selectedId = ref<string | null>(null)
+
+  // Monotonic counter for IDs, names and palette assignment
+  let nextIndex = 0
+
+  // Computed state
+  const selectedLine = computed(
+    () => lines.value.find((entry) => entry.id === selectedId.value) ?? null
+  )
+  const creatingLine = computed(
+    () => lines.value.find((entry) => entry.status === 'creating') ?? null
+  )
+  const readyLines = computed(() =>
+    lines.value.filter((entry) => entry.status === 'ready')
+  )
+
+  /**
+   * Find a line by ID
+   */
+  function getLine(id: string): ManagedLine | undefined {
+    return lines.value.find((entry) => entry.id === id)
+  }
+
+  /**
+   * Append a new entry with the next ID, name (unless given) and palette colour
+   */
+  function addEntry(
+    mode: MeasurementMode,
+    status: ManagedLine['status'],
+    name?: string
+  ): ManagedLine {
+    const index = nextIndex++
+    const entry: ManagedLine = {
+      id: `managed-line-${index}`,
+      name: name ?? `Line ${index + 1}`,
+      color: LINE_COLOR_PALETTE[index % LINE_COLOR_PALETTE.length]!,
+      visible: true,
+      mode,
+      status,
+      distanceMeters: 0,
+    }
+
+    lines.value.push(entry)
+    selectedId.value = entry.id
+    return lines.value[lines.value.length - 1]!
+  }
+
+  /**
+   * Start a new measurement in the given mode
+   * Any unfinished measurement is discarded first (only one can be drawn at a time)
+   * 
+   * @param mode - Measurement mode for the new line
+   * @returns The new entry (status 'creating')
+   */
+  function startLine(mode: MeasurementMode): ManagedLine {
+    if (creatingLine.value) {
+      removeLine(creatingLine.value.id)
+    }
+
+    return addEntry(mode, 'creating')
+  }
+
+  /**
+   * Add an already-measured line (e.g. restored from a shared link or imported)
+   * Geometry is loaded into the paired DistanceLine components by the caller
+   * 
+   * @param mode - Measurement mode of the line
+   * @param name - Display name (defaults to "Line N")
+   * @returns The new entry (status 'ready')
+   */
+  function restoreLine(mode: MeasurementMode, name?: string): ManagedLine {
+    return addEntry(mode, 'ready', name)
+  }
+
+  /**
+   * Bring back a deleted line under its original ID, name and colour (undo history)
+   * It is listed before the line being drawn; geometry is loaded by the caller
+   * 
+   * @param snapshot - Identity and mode of the line
+   * @returns The entry (status 'ready')
+   */
+  function reinstateLine(snapshot: Pick<ManagedLine, 'id' | 'name' | 'color' | 'mode'>): ManagedLine {
+    const entry: ManagedLine = {
+      id: snapshot.id,
+      name: snapshot.name,
+      color: snapshot.color,
+      visible: true,
+      mode: snapshot.mode,
+      status: 'ready',
+      distanceMeters: 0,
+    }
+
+    const creatingIndex = lines.value.findIndex((line) => line.status === 'creating')
+    const index = creatingIndex === -1 ? lines.value.length : creatingIndex
+    lines.value.splice(index, 0, entry)
+    selectedId.value = entry.id
+    return lines.value[index]!
+  }
+
+  /**
+   * Mark a line as measured and record its first measurement
+   */
+  function completeLine(
+    id: string,
+    measurement: Pick<ManagedLine, 'distanceMeters' | 'areaSquareMeters'>
+  ): void {
+    const entry = getLine(id)
+    if (!entry) return
+
+    entry.status = 'ready'
+    updateMeasurement(id, measurement)
+  }
+
+  /**
+   * Update the stored measurement of a line
+   */
+  function updateMeasurement(
+    id: string,
+    measurement: Pick<ManagedLine, 'distanceMeters' | 'areaSquareMeters'>
+  ): void {
+    const entry = getLine(id)
+    if (!entry) return
+
+    entry.distanceMeters = measurement.distanceMeters
+    entry.areaSquareMeters = measurement.areaSquareMeters
+  }
+
+  /**
+   * Change the mode of the line currently being drawn
+   */
+  function setCreatingMode(mode: MeasurementMode): void {
+    if (creatingLine.value) {
+      creatingLine.value.mode = mode
+    }
+  }
+
+  /**
+   * Select a line (highlighted on the maps, shown in the header)
+   */
+  function selectLine(id: string | null): void {
+    selectedId.value = id
+  }
+
+  /**
+   * Toggle visibility of a line on both maps
+   */
+  function toggleVisibility(id: string): void {
+    const entry = getLine(id)
+    if (entry) {
+      entry.visible = !entry.visible
+    }
+  }
+
+  /**
+   * Delete a line from both maps
+   * Selection moves to the most recent remaining line
+   */
+  function removeLine(id: string): void {
+    lines.value = lines.value.filter((entry) => entry.id !== id)
+
+    if (selectedId.value === id) {
+      selectedId.value = lines.value[lines.value.length - 1]?.id ?? null
+    }
+  }
+
+  /**
+   * Delete all lines
+   */
+  function clearAll(): void {
+    lines.value = []
+    selectedId.value = null
+  }
+
+  return {
+    // State
+    lines,
+    selectedId,
+    selectedLine,
+    creatingLine,
+    readyLines,
+
+    // Methods
+    getLine,
+    startLine,
+    restoreLine,
+    reinstateLine,
+    completeLine,
+    updateMeasurement,
+    setCreatingMode,
+    selectLine,
+    toggleVisibility,
+    removeLine,
+    clearAll,
+  }
+}
@@ -1,10 +1,14 @@
 /**
  * T043: Line Rotation Composable
  * Manages rotation interactions for distance lines
+ * Pointer-driven rotation (mouse, touch, pen) and a two-finger rotate gesture
  */
 import { ref, type Ref } from 'vue'
 import L from 'leaflet'
 import type { Coordinate } from '../types/map.types'
+import { ROTATION_SNAP_CONFIG, TOUCH_INPUT_CONFIG } from '../config/map.config'
+import { useGeodesic } from './useGeodesic'
+import { usePointerInput } from './usePointerInput'
 
 interface UseLineRotationOptions {
   /** Leaflet map instance */
@@ -17,6 +21,11 @@ interface UseLineRotationOptions {
   onRotate?: (bearing: number) => void
   /** Callback when rotation ends */
   onRotationEnd?: (bearing: number) => void
+  /**
+   * Whether a touched element belongs to the line (two-finger rotate starts
+   * only when the first finger lands on the line)
+   */
+  isGestureTarget?: (target: EventTarget | null) => boolean
 }
 
 export function useLineRotation(options: UseLineRotationOptions) {
@@ -26,15 +35,25 @@ export function useLineRotation(options: UseLineRotationOptions) {
     onRotationStart,
     onRotate,
     onRotationEnd,
+    isGestureTarget,
   } = options
+  const { pointerEventToCoordinate } = usePointerInput()
+  const { calculateBearing, snapBearing } = useGeodesic()
 
   // T043: Rotation state
   const bearing = ref<number>(initialBearing) // 0-360 degrees, 0 = North
   const isRotating = ref(false)
   const rotationAnchor = ref<Coordinate | null>(null)
 
-  // Internal state for mouse rotation
+  // Internal state for pointer rotation
   let animationFrameId: number | null = null
+  let activePointerId: number | null = null
+
+  // Two-finger gesture state: touch points by pointer ID (container pixels)
+  const gesturePointers = new Map<number, L.Point>()
+  let gestureStart: { angle: number; bearing: number } | null = null
+  let gestureContainer: HTMLElement | null = null
+  let suspendedTouchZoom = false
 
   /**
    * Normalize bearing to 0-360 range
@@ -45,49 +64,63 @@ export function useLineRotation(options: UseLineRotationOptions) {
     return normalized
   }
 
+  /**
+   * Snap increment selected by the held modifier keys
+   * Shift: 15° steps; Alt/Option: cardinal directions; none: free rotation
+   */
+  const getSnapStep = (modifiers: { shiftKey: boolean; altKey: boolean }): number | null => {
+    if (modifiers.altKey) return ROTATION_SNAP_CONFIG.cardinalStepDegrees
+    if (modifiers.shiftKey) return ROTATION_SNAP_CONFIG.stepDegrees
+    return null
+  }
+
   /**
    * T044: Calculate bearing from anchor point to cursor position
+   * Uses the geodesic initial bearing (same as useGeodesic.calculateBearing),
+   * so the line points exactly at the cursor at any latitude
    */
-  const calculateBearingFromMouse = (
+  const calculateBearingFromPointer = (
     anchor: Coordinate,
-    mouseLatLng: L.LatLng
+    cursor: Coordinate,
+    snapStep: number | null = null
   ): number => {
-    // Calculate angle between anchor and mouse position
-    const dy = mouseLatLng.lat - anchor.lat
-    const dx = mouseLatLng.lng - anchor.lng
-
-    // Calculate angle in radians, then convert to degrees
-    // atan2 returns angle from -180 to 180, we need 0-360 with 0 = North
-    let angleDeg = (Math.atan2(dx, dy) * 180) / Math.PI
-    
-    // Normalize to 0-360
-    return normalizeBearing(angleDeg)
+    const rawBearing = calculateBearing(anchor, cursor)
+    return snapStep ? snapBearing(rawBearing, snapStep) : rawBearing
   }
 
   /**
-   * T044: Start mouse rotation
+   * T044: Start pointer rotation around an anchor
+   * The line follows the pointer until it is released
+   * 
+   * @param anchor - Point the line rotates around
+   * @param pointerId - Pointer driving the rotation (from its pointerdown)
    */
-  const startMouseRotation = (anchor: Coordinate): void => {
+  const startPointerRotation = (anchor: Coordinate, pointerId: number): void => {
     if (!map.value) return
 
     isRotating.value = true
     rotationAnchor.value = anchor
+    activePointerId = pointerId
 
     onRotationStart?.(bearing.value)
 
-    // Listen for mousemove
-    map.value.on('mousemove', handleMouseMove)
-    map.value.on('mouseup', endMouseRotation)
+    document.addEventListener('pointermove', handlePointerMove)
+    document.addEventListener('pointerup', handlePointerUp)
+    document.addEventListener('pointercancel', handlePointerUp)
 
     // Prevent map interaction during rotation
     map.value.dragging.disable()
   }
 
   /**
-   * T044: Handle mouse move during rotation
+   * T044: Handle pointer move during rotation
    */
-  const handleMouseMove = (e: L.LeafletMouseEvent): void => {
+  const handlePointerMove = (e: PointerEvent): void => {
     if (!isRotating.value || !rotationAnchor.value || !map.value) return
+    if (e.pointerId !== activePointerId) return
+
+    const position = pointerEventToCoordinate(map.value, e)
+    const snapStep = getSnapStep(e)
 
     // T051: Use RAF for smooth updates (throttle to 30fps minimum)
     if (animationFrameId !== null) return
@@ -97,7 +130,7 @@ export function useLineRotation(options: UseLineRotationOptions) {
 
       if (!isRotating.value || !rotationAnchor.value) return
 
-      const newBearing = calculateBearingFromMouse(rotationAnchor.value, e.latlng)
+      const newBearing = calculateBearingFromPointer(rotationAnchor.value, position, snapStep)
       bearing.value = newBearing
 
       onRotate?.(newBearing)
@@ -105,11 +138,23 @@ export function useLineRotation(options: UseLineRotationOptions) {
   }
 
   /**
-   * End mouse rotation
+   * Handle release of the rotating pointer
    */
-  const endMouseRotation = (): void => {
-    if (!map.value) return
+  const handlePointerUp = (e: PointerEvent): void => {
+    if (e.pointerId !== activePointerId) return
+    endPointerRotation()
+  }
+
+  /**
+   * End pointer rotation
+   */
+  const endPointerRotation = (): void => {
+    document.removeEventListener('pointermove', handlePointerMove)
+    document.removeEventListener('pointerup', handlePointerUp)
+    document.removeEventListener('pointercancel', handlePointerUp)
+    activePointerId = null
 
+    if (!isRotating.value) return
     isRotating.value = false
 
     // Cancel any pending animation frame
@@ -119,15 +164,145 @@ export function useLineRotation(options: UseLineRotationOptions) {
     }
 
     // Re-enable map interaction
-    map.value.dragging.enable()
-
-    // Remove listeners
-    map.value.off('mousemove', handleMouseMove)
-    map.value.off('mouseup', endMouseRotation)
+    map.value?.dragging.enable()
 
     onRotationEnd?.(bearing.value)
   }
 
+  /**
+   * Screen angle of the line between two touch points (degrees clockwise from up)
+   * Web Mercator is conformal, so screen rotation equals bearing change
+   */
+  const getGestureAngle = (): number | null => {
+    const [first, second] = [...gesturePointers.values()]
+    if (!first || !second || first.distanceTo(second) < TOUCH_INPUT_CONFIG.minGestureSpanPx) {
+      return null
+    }
+    return (Math.atan2(second.x - first.x, first.y - second.y) * 180) / Math.PI
+  }
+
+  /**
+   * Track touches on the map: a finger on the line followed by a second finger
+   * anywhere starts a two-finger rotation (instead of Leaflet's pinch-zoom)
+   */
+  const handleGesturePointerDown = (e: PointerEvent): void => {
+    if (e.pointerType !== 'touch' || !map.value) return
+
+    if (gesturePointers.size === 0) {
+      if (!isGestureTarget?.(e.target)) return
+
+      // Second finger must rotate rather than pinch-zoom while this one is on the line
+      if (map.value.touchZoom.enabled()) {
+        map.value.touchZoom.disable()
+        suspendedTouchZoom = true
+      }
+      gesturePointers.set(e.pointerId, map.value.mouseEventToContainerPoint(e))
+      document.addEventListener('pointermove', handleGesturePointerMove)
+      document.addEventListener('pointerup', handleGesturePointerUp)
+      document.addEventListener('pointercancel', handleGesturePointerUp)
+      return
+    }
+
+    if (gesturePointers.size === 1 && !gestureStart) {
+      gesturePointers.set(e.pointerId, map.value.mouseEventToContainerPoint(e))
+      L.DomEvent.stop(e)
+
+      const angle = getGestureAngle()
+      if (angle === null) return
+
+      gestureStart = { angle, bearing: bearing.value }
+      isRotating.value = true
+      map.value.dragging.disable()
+      onRotationStart?.(bearing.value)
+    }
+  }
+
+  const handleGesturePointerMove = (e: PointerEvent): void => {
+    if (!gesturePointers.has(e.pointerId) || !map.value) return
+
+    gesturePointers.set(e.pointerId, map.value.mouseEventToContainerPoint(e))
+
+    const angle = getGestureAngle()
+    if (angle === null) return
+
+    if (!gestureStart) {
+      // Fingers were too close when the second one landed: start now
+      if (gesturePointers.size < 2) return
+      gestureStart = { angle, bearing: bearing.value }
+      isRotating.value = true
+      map.value.dragging.disable()
+      onRotationStart?.(bearing.value)
+      return
+    }
+
+    e.preventDefault()
+    const newBearing = normalizeBearing(gestureStart.bearing + angle - gestureStart.angle)
+
+    if (animationFrameId !== null) return
+    animationFrameId = requestAnimationFrame(() => {
+      animationFrameId = null
+      if (!gestureStart) return
+
+      bearing.value = newBearing
+      onRotate?.(newBearing)
+    })
+  }
+
+  const handleGesturePointerUp = (e: PointerEvent): void => {
+    if (!gesturePointers.delete(e.pointerId)) return
+
+    if (gestureStart) {
+      gestureStart = null
+      isRotating.value = false
+      if (animationFrameId !== null) {
+        cancelAnimationFrame(animationFrameId)
+        animationFrameId = null
+      }
+      map.value?.dragging.enable()
+      onRotationEnd?.(bearing.value)
+    }
+
+    if (gesturePointers.size === 0) {
+      resetGesture()
+    }
+  }
+
+  /**
+   * Forget tracked touches and restore pinch-zoom
+   */
+  const resetGesture = (): void => {
+    document.removeEventListener('pointermove', handleGesturePointerMove)
+    document.removeEventListener('pointerup', handleGesturePointerUp)
+    document.removeEventListener('pointercancel', handleGesturePointerUp)
+    gesturePointers.clear()
+    gestureStart = null
+
+    if (suspendedTouchZoom) {
+      map.value?.touchZoom.enable()
+      suspendedTouchZoom = false
+    }
+  }
+
+  /**
+   * Enable the two-finger rotate gesture on the map container
+   * Listens in the capture phase so Leaflet's touch handlers see the touch later
+   */
+  const enableGestures = (): void => {
+    if (!map.value || gestureContainer) return
+
+    gestureContainer = map.value.getContainer()
+    gestureContainer.addEventListener('pointerdown', handleGesturePointerDown, true)
+  }
+
+  /**
+   * Disable the two-finger rotate gesture
+   */
+  const disableGestures = (): void => {
+    gestureContainer?.removeEventListener('pointerdown', handleGesturePointerDown, true)
+    gestureContainer = null
+    resetGesture()
+  }
+
   /**
    * Rotate bearing by delta degrees
    */
@@ -157,11 +332,11 @@ export function useLineRotation(options: UseLineRotationOptions) {
    * Cleanup rotation state
    */
   const cleanup = (): void => {
-    if (map.value) {
-      map.value.off('mousemove', handleMouseMove)
-      map.value.off('mouseup', endMouseRotation)
-      map.value.dragging.enable()
-    }
+    document.removeEventListener('pointermove', handlePointerMove)
+    document.removeEventListener('pointerup', handlePointerUp)
+    document.removeEventListener('pointercancel', handlePointerUp)
+    disableGestures()
+    map.value?.dragging.enable()
 
     if (animationFrameId !== null) {
       cancelAnimationFrame(animationFrameId)
@@ -178,8 +353,12 @@ export function useLineRotation(options: UseLineRotationOptions) {
     rotationAnchor,
 
     // Methods
-    startMouseRotation,
-    endMouseRotation,
+    startPointerRotation,
+    endPointerRotation,
+    calculateBearingFromPointer,
+    getSnapStep,
+    enableGestures,
+    disableGestures,
     rotateBearing,
     setBearing,
     reset,
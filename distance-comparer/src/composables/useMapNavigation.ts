@@ -6,7 +6,8 @@
 
 import { ref, type Ref } from 'vue'
 import type L from 'leaflet'
-import type { Coordinate, Bounds, InputMode } from '../types/map.types'
+import type { Coordinate, Bounds } from '../types/map.types'
+import { usePointerInput } from './usePointerInput'
 
 export interface UseMapNavigationOptions {
   /** Leaflet map instance */
@@ -19,7 +20,8 @@ export function useMapNavigation(options: UseMapNavigationOptions) {
   // T048: Track interaction state
   const isDragging = ref(false)
   const isZooming = ref(false)
-  const inputMode = ref<InputMode>('mouse')
+  // Mouse vs. touch, shared app-wide (see usePointerInput)
+  const { inputMode } = usePointerInput()
 
   // T049: Pan to specific coordinates
   const panTo = (
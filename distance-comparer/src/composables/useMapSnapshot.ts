@@ -0,0 +1,447 @@
+/**
+ * Map Snapshot Composable
+ * Composites both map panels (tiles, lines, handles, labels, scale bars) and a
+ * caption into one PNG, or the vector overlays alone into an SVG, laid out
+ * like the app (side by side, stacked, or one view for overlay and swipe)
+ */
+
+import { ref } from 'vue'
+import type L from 'leaflet'
+import type { DistanceUnit, LayoutMode, SnapshotFormat } from '../types/map.types'
+import {
+  DISTANCE_LABEL_CONFIG,
+  DISTANCE_UNIT_FACTORS,
+  DISTANCE_UNIT_LABELS,
+  OVERLAY_LAYOUT_CONFIG,
+  SNAPSHOT_CONFIG,
+} from '../config/map.config'
+import { useGeodesic } from './useGeodesic'
+import { downloadBlob, escapeXml } from './useTrackExport'
+
+/**
+ * Options for one snapshot
+ */
+export interface SnapshotOptions {
+  /** Map of each panel, in display order (left, right) */
+  maps: L.Map[]
+  /** Current layout of the panels */
+  layout: LayoutMode
+  /** Text shown below the maps */
+  caption: string
+  /** Overlay layout: opacity of the left map's tiles over the right map */
+  overlayOpacity?: number
+  /** Swipe layout: divider position as a fraction of the width */
+  swipePosition?: number
+}
+
+/**
+ * Placement of one map panel in the snapshot
+ */
+interface PanelBox {
+  map: L.Map
+  x: number
+  y: number
+  width: number
+  height: number
+  /** Width shown from the left edge (swipe: the left map ends at the divider) */
+  visibleWidth: number
+  /** Opacity of the tiles (overlay: the left map over the right map) */
+  tileOpacity: number
+  /** Drawn under the other panel (overlay and swipe): no second scale bar, credits a row up */
+  underneath: boolean
+}
+
+// Scale bars use the small or large unit of the selected unit's family
+const SCALE_BAR_UNITS: Record<DistanceUnit, [DistanceUnit, DistanceUnit]> = {
+  meters: ['meters', 'kilometers'],
+  kilometers: ['meters', 'kilometers'],
+  miles: ['feet', 'miles'],
+  feet: ['feet', 'miles'],
+  'nautical-miles': ['meters', 'nautical-miles'],
+  yards: ['yards', 'yards'],
+}
+
+/**
+ * Largest 1, 2 or 5 × 10^n not above the value
+ */
+function roundDownNice(value: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const leading = value / magnitude
+  const nice = leading >= 5 ? 5 : leading >= 2 ? 2 : 1
+  return nice * magnitude
+}
+
+/**
+ * Round a pixel position for compact SVG output
+ */
+function px(value: number): string {
+  return String(Math.round(value * 10) / 10)
+}
+
+/**
+ * Position of an element relative to its map container (pixels)
+ */
+function offsetIn(element: Element, container: HTMLElement): { x: number; y: number } {
+  const rect = element.getBoundingClientRect()
+  const containerRect = container.getBoundingClientRect()
+  return { x: rect.left - containerRect.left, y: rect.top - containerRect.top }
+}
+
+/**
+ * Place the panels as they are laid out in the app
+ * Overlay and swipe share one viewport: the right map is drawn first, the
+ * left map over it (faded, or cut off at the divider)
+ */
+function layoutPanels(options: SnapshotOptions): {
+  panels: PanelBox[]
+  width: number
+  height: number
+} {
+  const { maps, layout } = options
+  const panels: PanelBox[] = []
+
+  if (layout === 'overlay' || layout === 'swipe') {
+    const swipePosition = options.swipePosition ?? OVERLAY_LAYOUT_CONFIG.defaultSwipePosition
+    const overlayOpacity = options.overlayOpacity ?? OVERLAY_LAYOUT_CONFIG.defaultOpacity
+
+    maps.forEach((map, index) => {
+      const size = map.getSize()
+      const isTop = index === 0
+      panels.unshift({
+        map,
+        x: 0,
+        y: 0,
+        width: size.x,
+        height: size.y,
+        visibleWidth: isTop && layout === 'swipe' ? size.x * swipePosition : size.x,
+        tileOpacity: isTop && layout === 'overlay' ? overlayOpacity : 1,
+        underneath: !isTop,
+      })
+    })
+  } else {
+    let offset = 0
+    for (const map of maps) {
+      const size = map.getSize()
+      const isRow = layout === 'side-by-side'
+      panels.push({
+        map,
+        x: isRow ? offset : 0,
+        y: isRow ? 0 : offset,
+        width: size.x,
+        height: size.y,
+        visibleWidth: size.x,
+        tileOpacity: 1,
+        underneath: false,
+      })
+      offset += (isRow ? size.x : size.y) + SNAPSHOT_CONFIG.gapPx
+    }
+  }
+
+  const width = Math.max(0, ...panels.map((panel) => panel.x + panel.width))
+  const height = Math.max(0, ...panels.map((panel) => panel.y + panel.height))
+  return { panels, width, height }
+}
+
+/**
+ * Leaflet's own SVG layer (lines, polygons, circle handles), re-positioned in the panel
+ */
+function renderVectorLayers(map: L.Map): string {
+  const container = map.getContainer()
+  const serializer = new XMLSerializer()
+
+  return Array.from(map.getPanes().overlayPane.querySelectorAll('svg'))
+    .map((svg) => {
+      const { x, y } = offsetIn(svg, container)
+      const clone = svg.cloneNode(true) as SVGSVGElement
+      clone.removeAttribute('style')
+      clone.removeAttribute('class')
+      clone.setAttribute('x', px(x))
+      clone.setAttribute('y', px(y))
+      return serializer.serializeToString(clone)
+    })
+    .join('')
+}
+
+/**
+ * Arrow heads at line ends (HTML markers on the map) as SVG triangles
+ */
+function renderArrows(map: L.Map): string {
+  const container = map.getContainer()
+
+  return Array.from(container.querySelectorAll<HTMLElement>('.arrow-marker'))
+    .map((marker) => {
+      const arrow = marker.firstElementChild as HTMLElement | null
+      if (!arrow?.dataset.bearing) return ''
+
+      const size = Number(arrow.dataset.size)
+      const { x, y } = offsetIn(marker, container)
+      const tip = `0,${px(-0.75 * size)}`
+      const base = `${px(-size / 2)},${px(0.25 * size)} ${px(size / 2)},${px(0.25 * size)}`
+
+      return (
+        `<polygon points="${tip} ${base}" fill="${arrow.dataset.color}" ` +
+        `transform="translate(${px(x + size / 2)} ${px(y + 0.75 * size)}) ` +
+        `rotate(${arrow.dataset.bearing})"/>`
+      )
+    })
+    .join('')
+}
+
+/**
+ * Distance labels (HTML markers on the map) as SVG text on a rounded background
+ */
+function renderLabels(map: L.Map): string {
+  const container = map.getContainer()
+  const { fontSize, offsetPx } = DISTANCE_LABEL_CONFIG
+
+  return Array.from(container.querySelectorAll<HTMLElement>('.distance-label-marker'))
+    .map((marker) => {
+      const label = marker.firstElementChild as HTMLElement | null
+      if (!label?.dataset.angle) return ''
+
+      const text = label.textContent?.trim() ?? ''
+      // offsetWidth ignores the rotation; estimate when the label isn't laid out
+      const width = label.offsetWidth || text.length * fontSize * 0.6 + 14
+      const height = label.offsetHeight || fontSize * 1.4 + 2
+      const { x, y } = offsetIn(marker, container)
+
+      return (
+        `<g transform="translate(${px(x)} ${px(y)}) rotate(${label.dataset.angle}) ` +
+        `translate(0 ${-offsetPx})">` +
+        `<rect x="${px(-width / 2)}" y="${px(-height / 2)}" width="${px(width)}" ` +
+        `height="${px(height)}" rx="${px(height / 2)}" fill="#ffffff" fill-opacity="0.9" ` +
+        `stroke="${label.dataset.color}"/>` +
+        `<text text-anchor="middle" dominant-baseline="central" font-size="${fontSize}" ` +
+        `font-weight="600" fill="#213547">${escapeXml(text)}</text></g>`
+      )
+    })
+    .join('')
+}
+
+/**
+ * Tile attribution of the panel (required wherever tiles are shown)
+ */
+function renderAttribution(panel: PanelBox): string {
+  const attribution = panel.map
+    .getContainer()
+    .querySelector('.leaflet-control-attribution')
+    ?.textContent?.trim()
+  if (!attribution) return ''
+
+  const fontSize = 10
+  const rowHeight = fontSize + 6
+  const bottom = panel.height - (panel.underneath ? rowHeight : 0)
+  const width = attribution.length * fontSize * 0.55 + 8
+  const x = panel.width - width
+  const y = bottom - rowHeight
+
+  return (
+    `<rect x="${px(x)}" y="${px(y)}" width="${px(width)}" height="${rowHeight}" ` +
+    `fill="#ffffff" fill-opacity="0.8"/>` +
+    `<text x="${px(panel.width - 4)}" y="${px(bottom - 3)}" text-anchor="end" ` +
+    `font-size="${fontSize}" fill="#333333">${escapeXml(attribution)}</text>`
+  )
+}
+
+/**
+ * Composable for side-by-side comparison snapshots
+ */
+export function useMapSnapshot() {
+  const { distanceUnit, calculateDistance } = useGeodesic()
+
+  const isCapturing = ref(false)
+  const error = ref<string | null>(null)
+
+  /**
+   * Scale bar for the middle of the panel, in the selected unit family
+   */
+  function renderScaleBar(panel: PanelBox): string {
+    const { map, height } = panel
+    const maxWidth = SNAPSHOT_CONFIG.scaleBarMaxWidthPx
+    const middle = height / 2
+    const left = map.containerPointToLatLng([0, middle])
+    const right = map.containerPointToLatLng([maxWidth, middle])
+    const maxMeters = calculateDistance(left.lat, left.lng, right.lat, right.lng)
+    if (!(maxMeters > 0)) return ''
+
+    const [smallUnit, largeUnit] = SCALE_BAR_UNITS[distanceUnit.value]
+    const unit = maxMeters >= DISTANCE_UNIT_FACTORS[largeUnit] ? largeUnit : smallUnit
+    const value = roundDownNice(maxMeters / DISTANCE_UNIT_FACTORS[unit])
+    const width = (maxWidth * value * DISTANCE_UNIT_FACTORS[unit]) / maxMeters
+
+    const x = SNAPSHOT_CONFIG.marginPx
+    const y = height - SNAPSHOT_CONFIG.marginPx
+
+    return (
+      `<rect x="${x - 4}" y="${y - 24}" width="${px(width + 8)}" height="28" rx="3" ` +
+      `fill="#ffffff" fill-opacity="0.8"/>` +
+      `<path d="M${x} ${y - 8}V${y}H${px(x + width)}V${y - 8}" fill="none" ` +
+      `stroke="#213547" stroke-width="2"/>` +
+      `<text x="${x + 2}" y="${y - 12}" font-size="11" fill="#213547">` +
+      `${value} ${DISTANCE_UNIT_LABELS[unit]}</text>`
+    )
+  }
+
+  /**
+   * Build the snapshot SVG
+   *
+   * @param options - Maps, layout and caption
+   * @param includeTileCredits - Add tile attributions (when tiles are drawn underneath)
+   * @returns SVG document and its size in pixels
+   */
+  function buildSnapshotSvg(
+    options: SnapshotOptions,
+    includeTileCredits: boolean = false
+  ): { svg: string; width: number; height: number } {
+    const { panels, width, height: mapsHeight } = layoutPanels(options)
+    const captionHeight = SNAPSHOT_CONFIG.captionHeightPx
+    const height = mapsHeight + captionHeight
+
+    // Map content is cut off at the visible width; scale bar and credits are not
+    const panelSvgs = panels.map(
+      (panel) =>
+        `<svg x="${panel.x}" y="${panel.y}" width="${px(panel.visibleWidth)}" ` +
+        `height="${panel.height}" overflow="hidden">` +
+        renderVectorLayers(panel.map) +
+        renderArrows(panel.map) +
+        renderLabels(panel.map) +
+        '</svg>' +
+        `<svg x="${panel.x}" y="${panel.y}" width="${panel.width}" height="${panel.height}" ` +
+        `overflow="hidden">` +
+        (panel.underneath ? '' : renderScaleBar(panel)) +
+        (includeTileCredits ? renderAttribution(panel) : '') +
+        '</svg>'
+    )
+
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+      `viewBox="0 0 ${width} ${height}" font-family='${SNAPSHOT_CONFIG.fontFamily}'>` +
+      panelSvgs.join('') +
+      `<rect x="0" y="${mapsHeight}" width="${width}" height="${captionHeight}" ` +
+      `fill="${SNAPSHOT_CONFIG.background}"/>` +
+      `<text x="${width / 2}" y="${mapsHeight + captionHeight / 2}" text-anchor="middle" ` +
+      `dominant-baseline="central" font-size="${SNAPSHOT_CONFIG.captionFontSize}" ` +
+      `font-weight="600" fill="#213547">${escapeXml(options.caption)}</text>` +
+      '</svg>'
+
+    return { svg, width, height }
+  }
+
+  /**
+   * Whether a tile can be drawn without tainting the canvas: loaded from the
+   * cache, same origin, or with CORS (the cache falls back to plain requests)
+   */
+  function isCopyableTile(tile: HTMLImageElement): boolean {
+    if (tile.crossOrigin !== null || tile.src.startsWith('data:')) return true
+    return new URL(tile.src, window.location.href).origin === window.location.origin
+  }
+
+  /**
+   * Draw the loaded tiles of every panel onto the canvas
+   * Tiles that cannot be copied are left out
+   */
+  function drawTiles(context: CanvasRenderingContext2D, options: SnapshotOptions): void {
+    const { panels } = layoutPanels(options)
+
+    for (const panel of panels) {
+      const container = panel.map.getContainer()
+      const tiles = container.querySelectorAll<HTMLImageElement>(
+        '.leaflet-tile-pane img.leaflet-tile'
+      )
+
+      context.save()
+      context.globalAlpha = panel.tileOpacity
+      context.beginPath()
+      context.rect(panel.x, panel.y, panel.visibleWidth, panel.height)
+      context.clip()
+
+      for (const tile of Array.from(tiles)) {
+        if (!tile.complete || tile.naturalWidth === 0 || !isCopyableTile(tile)) continue
+
+        const rect = tile.getBoundingClientRect()
+        const { x, y } = offsetIn(tile, container)
+        context.drawImage(tile, panel.x + x, panel.y + y, rect.width, rect.height)
+      }
+
+      context.restore()
+    }
+  }
+
+  /**
+   * Rasterize tiles plus the vector overlays into a PNG
+   */
+  async function renderPng(options: SnapshotOptions): Promise<Blob> {
+    const { svg, width, height } = buildSnapshotSvg(options, true)
+    const ratio = window.devicePixelRatio || 1
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(width * ratio)
+    canvas.height = Math.round(height * ratio)
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas is not available in this browser')
+    }
+
+    context.scale(ratio, ratio)
+    context.fillStyle = SNAPSHOT_CONFIG.background
+    context.fillRect(0, 0, width, height)
+    drawTiles(context, options)
+
+    const overlay = new Image()
+    overlay.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+    await overlay.decode()
+    context.drawImage(overlay, 0, 0, width, height)
+
+    return new Promise((resolve, reject) => {
+      try {
+        canvas.toBlob((blob) => {
+          if (blob) {
+            resolve(blob)
+          } else {
+            reject(new Error('The image could not be created'))
+          }
+        }, 'image/png')
+      } catch {
+        // Tiles from servers without CORS headers taint the canvas
+        reject(new Error('The tile server does not allow its tiles to be copied into an image'))
+      }
+    })
+  }
+
+  /**
+   * Download a snapshot of both panels
+   *
+   * @param format - PNG (tiles and overlays) or SVG (overlays only)
+   * @param options - Maps, layout and caption
+   */
+  async function exportSnapshot(format: SnapshotFormat, options: SnapshotOptions): Promise<void> {
+    isCapturing.value = true
+    error.value = null
+
+    try {
+      const blob =
+        format === 'png'
+          ? await renderPng(options)
+          : new Blob([buildSnapshotSvg(options).svg], { type: 'image/svg+xml' })
+
+      const date = new Date().toISOString().slice(0, 10)
+      downloadBlob(blob, `${SNAPSHOT_CONFIG.fileName}-${date}.${format}`)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Snapshot failed'
+      console.error('Snapshot error:', err)
+    } finally {
+      isCapturing.value = false
+    }
+  }
+
+  return {
+    // State
+    isCapturing,
+    error,
+
+    // Methods
+    buildSnapshotSvg,
+    exportSnapshot,
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Path shape composable
+ * Converts a path into its intrinsic geometry (leg lengths and turn angles)
+ * and re-projects it around any anchor and bearing on the globe.
+ * Used to transplant left-map paths to the right map without Mercator distortion.
+ * Shapes can also be projected around any point along them (rotation pivot).
+ */
+
+import type { Coordinate, PathLeg } from '../types/map.types'
+import { useGeodesic } from './useGeodesic'
+import { useGeodesicPath } from './useGeodesicPath'
+
+// Legs shorter than this carry no reliable direction
+const MIN_DIRECTIONAL_LEG_METERS = 0.001
+
+const normalizeBearing = (deg: number): number => ((deg % 360) + 360) % 360
+
+/**
+ * Composable for extracting and projecting rigid path shapes
+ */
+export function usePathShape() {
+  const { calculateDistance, calculateBearing, calculateDestinationPoint } =
+    useGeodesic()
+  const { calculateFinalBearing } = useGeodesicPath()
+
+  /**
+   * Extract the intrinsic shape of a path
+   * Each leg keeps its geodesic length and the turn taken at its start vertex
+   * 
+   * @param vertices - Ordered path vertices (at least two)
+   * @returns Legs in path order
+   */
+  function extractShape(vertices: Coordinate[]): PathLeg[] {
+    const legs: PathLeg[] = []
+    let incoming: number | null = null
+
+    for (let i = 1; i < vertices.length; i++) {
+      const from = vertices[i - 1]!
+      const to = vertices[i]!
+      const distanceMeters = calculateDistance(from.lat, from.lng, to.lat, to.lng)
+
+      // Zero-length legs have no direction: keep the previous heading
+      if (distanceMeters < MIN_DIRECTIONAL_LEG_METERS) {
+        legs.push({ distanceMeters, turnAngle: 0 })
+        continue
+      }
+
+      const outgoing = calculateBearing(from, to)
+      legs.push({
+        distanceMeters,
+        turnAngle: incoming === null ? 0 : normalizeTurn(outgoing - incoming),
+      })
+
+      incoming = calculateFinalBearing(from, to)
+    }
+
+    return legs
+  }
+
+  /**
+   * Project a shape onto the globe starting at an anchor
+   * 
+   * @param anchor - Position of the first vertex
+   * @param bearing - Initial bearing of the first leg (degrees)
+   * @param legs - Shape legs from extractShape()
+   * @returns Vertices (legs.length + 1 points)
+   */
+  function projectShape(
+    anchor: Coordinate,
+    bearing: number,
+    legs: PathLeg[]
+  ): Coordinate[] {
+    const vertices: Coordinate[] = [anchor]
+    let heading = bearing
+
+    legs.forEach((leg, i) => {
+      const from = vertices[i]!
+      heading = i === 0 ? bearing : normalizeBearing(heading + leg.turnAngle)
+      const to = calculateDestinationPoint(from, leg.distanceMeters, heading)
+      vertices.push(to)
+
+      // Continue from the direction of travel on arrival
+      if (leg.distanceMeters >= MIN_DIRECTIONAL_LEG_METERS) {
+        heading = calculateFinalBearing(from, to)
+      }
+    })
+
+    return vertices
+  }
+
+  /**
+   * Find the leg containing a distance along the shape
+   * A distance exactly on a vertex belongs to the outgoing leg (the last leg
+   * for the end of the shape)
+   */
+  function findLeg(legs: PathLeg[], distanceMeters: number): { index: number; offset: number } {
+    let start = 0
+    for (let i = 0; i < legs.length - 1; i++) {
+      const end = start + legs[i]!.distanceMeters
+      if (distanceMeters < end) {
+        return { index: i, offset: Math.max(0, distanceMeters - start) }
+      }
+      start = end
+    }
+    const last = legs[legs.length - 1]
+    return {
+      index: legs.length - 1,
+      offset: Math.min(Math.max(0, distanceMeters - start), last?.distanceMeters ?? 0),
+    }
+  }
+
+  /**
+   * Locate a point along a projected shape and the direction of travel there
+   * 
+   * @param vertices - Projected vertices from projectShape()
+   * @param legs - Shape legs
+   * @param distanceMeters - Distance from the first vertex
+   * @returns Point and heading (degrees) following the shape's geodesics
+   */
+  function locateOnShape(
+    vertices: Coordinate[],
+    legs: PathLeg[],
+    distanceMeters: number
+  ): { point: Coordinate; heading: number } {
+    const { index, offset } = findLeg(legs, distanceMeters)
+    const from = vertices[index]!
+    const to = vertices[index + 1] ?? from
+    const legHeading = calculateBearing(from, to)
+
+    if (offset < MIN_DIRECTIONAL_LEG_METERS) {
+      return { point: from, heading: legHeading }
+    }
+
+    const point = calculateDestinationPoint(from, offset, legHeading)
+    return { point, heading: calculateFinalBearing(from, point) }
+  }
+
+  /**
+   * Project a shape so that the point a given distance along it sits at a pivot
+   * with the given heading. Both halves are projected outward from the pivot,
+   * so every leg keeps its exact length whatever the pivot
+   * 
+   * @param pivot - Position of the pivot point
+   * @param heading - Direction of travel at the pivot (degrees)
+   * @param legs - Shape legs from extractShape()
+   * @param pivotDistance - Distance of the pivot from the first vertex
+   * @returns Vertices (legs.length + 1 points), first vertex first
+   */
+  function projectShapeAround(
+    pivot: Coordinate,
+    heading: number,
+    legs: PathLeg[],
+    pivotDistance: number
+  ): Coordinate[] {
+    if (legs.length === 0) return [pivot]
+
+    const { index, offset } = findLeg(legs, pivotDistance)
+    const splitLeg = legs[index]!
+
+    // Pivot → end: remainder of the split leg, then the following legs
+    const after: PathLeg[] = [
+      { distanceMeters: splitLeg.distanceMeters - offset, turnAngle: 0 },
+      ...legs.slice(index + 1),
+    ]
+    // Start → pivot: preceding legs, then the first part of the split leg
+    const before: PathLeg[] = [
+      ...legs.slice(0, index),
+      { distanceMeters: offset, turnAngle: splitLeg.turnAngle },
+    ]
+
+    const forward = projectShape(pivot, heading, after)
+    const backward = projectShape(pivot, normalizeBearing(heading + 180), reverseLegs(before))
+
+    // Both halves start at the pivot: keep it only where it is a real vertex
+    return [...backward.reverse().slice(0, -1), ...forward.slice(1)]
+  }
+
+  /**
+   * Total length of a shape
+   * 
+   * @param legs - Shape legs
+   * @returns Sum of leg distances in meters
+   */
+  function getShapeLength(legs: PathLeg[]): number {
+    return legs.reduce((total, leg) => total + leg.distanceMeters, 0)
+  }
+
+  return {
+    extractShape,
+    projectShape,
+    projectShapeAround,
+    locateOnShape,
+    getShapeLength,
+  }
+}
+
+/**
+ * Reverse a shape: legs in opposite order, each turn mirrored
+ * and moved to the leg that now leaves its vertex
+ */
+function reverseLegs(legs: PathLeg[]): PathLeg[] {
+  const count = legs.length
+  return legs.map((_, j) => ({
+    distanceMeters: legs[count - 1 - j]!.distanceMeters,
+    turnAngle: j === 0 ? 0 : -legs[count - j]!.turnAngle,
+  }))
+}
+
+/**
+ * Normalize a turn angle to -180..180 degrees
+ */
+function normalizeTurn(deg: number): number {
+  const normalized = normalizeBearing(deg)
+  return normalized > 180 ? normalized - 360 : normalized
+}
@@ -0,0 +1,63 @@
+/**
+ * Pointer Input Composable
+ * Tracks whether the user is currently interacting by mouse or touch (pen counts
+ * as touch) so handles and tolerances can adapt, and converts pointer events to
+ * map coordinates
+ */
+
+import { ref } from 'vue'
+import type L from 'leaflet'
+import type { Coordinate, InputMode } from '../types/map.types'
+
+/**
+ * Initial guess before any pointer event: coarse primary pointer means touch
+ */
+function detectInputMode(): InputMode {
+  try {
+    return window.matchMedia('(pointer: coarse)').matches ? 'touch' : 'mouse'
+  } catch {
+    return 'mouse'
+  }
+}
+
+// Shared by all components: the most recent pointer decides the mode
+const inputMode = ref<InputMode>(detectInputMode())
+let isListening = false
+
+/**
+ * Update the input mode from any pointer press in the document
+ */
+function handleGlobalPointerDown(e: PointerEvent): void {
+  inputMode.value = e.pointerType === 'mouse' ? 'mouse' : 'touch'
+}
+
+/**
+ * Composable for pointer-type aware interaction
+ */
+export function usePointerInput() {
+  if (!isListening && typeof document !== 'undefined') {
+    // Capture phase so the mode is updated before any handler reacts to the press
+    document.addEventListener('pointerdown', handleGlobalPointerDown, true)
+    isListening = true
+  }
+
+  /**
+   * Convert a pointer event to map coordinates
+   * 
+   * @param map - Leaflet map the event occurred over
+   * @param e - Pointer event (client coordinates are used)
+   * @returns Geographic position under the pointer
+   */
+  function pointerEventToCoordinate(map: L.Map, e: PointerEvent): Coordinate {
+    const latLng = map.mouseEventToLatLng(e)
+    return { lat: latLng.lat, lng: latLng.lng }
+  }
+
+  return {
+    // State
+    inputMode,
+
+    // Methods
+    pointerEventToCoordinate,
+  }
+}
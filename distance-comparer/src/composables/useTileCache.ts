@@ -0,0 +1,532 @@
+/**
+ * Tile Cache Composable
+ * IndexedDB cache for map tiles: tiles are served from the cache when present
+ * (so maps keep working without a connection), areas can be downloaded ahead of
+ * time, and the least recently used tiles are evicted once the size limit is hit
+ */
+
+import { ref } from 'vue'
+import L from 'leaflet'
+import type {
+  Bounds,
+  Coordinate,
+  TileCacheStats,
+  TileLayerConfig,
+  TilePrefetchProgress,
+} from '../types/map.types'
+import { TILE_CACHE_CONFIG } from '../config/map.config'
+
+/**
+ * Tile as stored in IndexedDB
+ */
+interface CachedTile {
+  url: string
+  blob: Blob
+  size: number
+  storedAt: number
+  lastAccess: number
+}
+
+// Web Mercator tiles stop short of the poles
+const MAX_MERCATOR_LATITUDE = 85.0511287798
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max)
+
+let databasePromise: Promise<IDBDatabase> | null = null
+let measurePromise: Promise<TileCacheStats> | null = null
+let evictionPromise: Promise<void> | null = null
+
+// Shared across all composable instances (null until first measured)
+const stats = ref<TileCacheStats | null>(null)
+
+/**
+ * Whether this browser can cache tiles
+ */
+export function isTileCacheSupported(): boolean {
+  return typeof indexedDB !== 'undefined' && typeof fetch === 'function'
+}
+
+/**
+ * Whether tiles of a URL template are cached
+ * Only remote http(s) servers: a local tile server already works offline
+ */
+export function isCacheableTemplate(urlTemplate: string): boolean {
+  return /^https?:\/\//i.test(urlTemplate)
+}
+
+/**
+ * Open (and on first use create) the tile database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(TILE_CACHE_CONFIG.databaseName, 1)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(TILE_CACHE_CONFIG.storeName, {
+          keyPath: 'url',
+        })
+        store.createIndex('lastAccess', 'lastAccess')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+
+    // Allow a later attempt after e.g. a blocked upgrade
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+/**
+ * Run one request against the tile store
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(TILE_CACHE_CONFIG.storeName, mode)
+    const request = operation(transaction.objectStore(TILE_CACHE_CONFIG.storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Count stored tiles and their size
+ */
+async function measureCache(): Promise<TileCacheStats> {
+  const database = await openDatabase()
+  const measured = await new Promise<TileCacheStats>((resolve, reject) => {
+    const transaction = database.transaction(TILE_CACHE_CONFIG.storeName, 'readonly')
+    const cursorRequest = transaction.objectStore(TILE_CACHE_CONFIG.storeName).openCursor()
+    const totals: TileCacheStats = { tileCount: 0, bytes: 0 }
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) return
+      totals.tileCount++
+      totals.bytes += (cursor.value as CachedTile).size
+      cursor.continue()
+    }
+    transaction.oncomplete = () => resolve(totals)
+    transaction.onerror = () => reject(transaction.error)
+  })
+
+  stats.value = measured
+  return measured
+}
+
+/**
+ * Cache totals, counted once and then kept up to date on every write
+ */
+async function ensureStats(): Promise<TileCacheStats> {
+  if (stats.value) return stats.value
+  if (!measurePromise) {
+    measurePromise = measureCache().finally(() => {
+      measurePromise = null
+    })
+  }
+  return measurePromise
+}
+
+/**
+ * Apply a change to the known cache totals
+ */
+function adjustStats(tileDelta: number, byteDelta: number): void {
+  if (!stats.value) return
+  stats.value = {
+    tileCount: stats.value.tileCount + tileDelta,
+    bytes: stats.value.bytes + byteDelta,
+  }
+}
+
+/**
+ * Delete least recently used tiles until the cache is back under its limit
+ */
+async function evictLeastRecent(): Promise<void> {
+  const current = await ensureStats()
+  if (current.bytes <= TILE_CACHE_CONFIG.maxBytes) return
+
+  const excess = current.bytes - TILE_CACHE_CONFIG.maxBytes * TILE_CACHE_CONFIG.evictToRatio
+  const database = await openDatabase()
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = database.transaction(TILE_CACHE_CONFIG.storeName, 'readwrite')
+    const cursorRequest = transaction
+      .objectStore(TILE_CACHE_CONFIG.storeName)
+      .index('lastAccess')
+      .openCursor()
+    let removedTiles = 0
+    let removedBytes = 0
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor || removedBytes >= excess) return
+      removedTiles++
+      removedBytes += (cursor.value as CachedTile).size
+      cursor.delete()
+      cursor.continue()
+    }
+    transaction.oncomplete = () => {
+      adjustStats(-removedTiles, -removedBytes)
+      resolve()
+    }
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Look up a stored tile
+ */
+function readTile(url: string): Promise<CachedTile | undefined> {
+  return runRequest('readonly', (store) => store.get(url) as IDBRequest<CachedTile | undefined>)
+}
+
+/**
+ * Store a downloaded tile, evicting old tiles when the cache is full
+ */
+async function writeTile(url: string, blob: Blob): Promise<void> {
+  await ensureStats()
+  const previous = await readTile(url)
+  const now = Date.now()
+  const tile: CachedTile = { url, blob, size: blob.size, storedAt: now, lastAccess: now }
+
+  await runRequest('readwrite', (store) => store.put(tile))
+  adjustStats(previous ? 0 : 1, blob.size - (previous?.size ?? 0))
+
+  // One eviction at a time, otherwise parallel downloads would each free the same excess
+  if (stats.value && stats.value.bytes > TILE_CACHE_CONFIG.maxBytes && !evictionPromise) {
+    evictionPromise = evictLeastRecent().finally(() => {
+      evictionPromise = null
+    })
+    await evictionPromise
+  }
+}
+
+/**
+ * Mark a tile as used (throttled, it is only an eviction hint)
+ */
+async function touchTile(tile: CachedTile): Promise<void> {
+  const now = Date.now()
+  if (now - tile.lastAccess < TILE_CACHE_CONFIG.touchIntervalMs) return
+  await runRequest('readwrite', (store) => store.put({ ...tile, lastAccess: now }))
+}
+
+/**
+ * Download a tile (CORS request, so its bytes can be stored)
+ */
+async function fetchTile(url: string, signal?: AbortSignal): Promise<Blob> {
+  const response = await fetch(url, { mode: 'cors', signal })
+  if (!response.ok) {
+    throw new Error(`Tile request failed with status ${response.status}`)
+  }
+  return response.blob()
+}
+
+/**
+ * Whether a stored tile is recent enough to skip the network
+ */
+function isFresh(tile: CachedTile): boolean {
+  return Date.now() - tile.storedAt < TILE_CACHE_CONFIG.maxAgeMs
+}
+
+/**
+ * Tile bytes from the cache, or from the network (then stored)
+ * A stale tile is still used when the network fails
+ */
+async function loadTile(url: string): Promise<Blob> {
+  const cached = await readTile(url).catch(() => undefined)
+  if (cached && isFresh(cached)) {
+    void touchTile(cached).catch(() => {})
+    return cached.blob
+  }
+
+  try {
+    const blob = await fetchTile(url)
+    writeTile(url, blob).catch((err) => console.warn('[TileCache] Could not store tile:', err))
+    return blob
+  } catch (err) {
+    if (cached) return cached.blob
+    throw err
+  }
+}
+
+/**
+ * Tile layer that reads tiles through the offline cache
+ */
+class CachedTileLayer extends L.TileLayer {
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img')
+    const url = this.getTileUrl(coords)
+
+    L.DomEvent.on(tile, 'load', () => done(undefined, tile))
+    L.DomEvent.on(tile, 'error', () => done(new Error(`Failed to load tile ${url}`), tile))
+
+    if (this.options.crossOrigin || this.options.crossOrigin === '') {
+      tile.crossOrigin = this.options.crossOrigin === true ? '' : this.options.crossOrigin
+    }
+    tile.alt = ''
+    tile.setAttribute('role', 'presentation')
+
+    loadTile(url)
+      .then((blob) => {
+        // Leaflet sets a placeholder src on tiles it dropped while we were loading
+        if (tile.getAttribute('src')) return
+
+        const objectUrl = URL.createObjectURL(blob)
+        const release = () => URL.revokeObjectURL(objectUrl)
+        tile.addEventListener('load', release, { once: true })
+        tile.addEventListener('error', release, { once: true })
+        tile.src = objectUrl
+      })
+      .catch(() => {
+        // No CORS on the server, or offline without a stored copy: load it as a plain
+        // image (a CORS request would fail again); such tiles are left out of snapshots
+        if (tile.getAttribute('src')) return
+        tile.removeAttribute('crossorigin')
+        tile.src = url
+      })
+
+    return tile
+  }
+}
+
+/**
+ * Create a tile layer, caching its tiles when the browser and server allow it
+ *
+ * @param urlTemplate - XYZ URL template
+ * @param options - Leaflet tile layer options
+ */
+export function createCachedTileLayer(
+  urlTemplate: string,
+  options: L.TileLayerOptions
+): L.TileLayer {
+  if (isTileCacheSupported() && isCacheableTemplate(urlTemplate)) {
+    return new CachedTileLayer(urlTemplate, options)
+  }
+  return L.tileLayer(urlTemplate, options)
+}
+
+/**
+ * Tile column/row range covering the bounds at a zoom level
+ */
+function getTileRange(bounds: Bounds, zoom: number) {
+  const count = 2 ** zoom
+  const toColumn = (lng: number) =>
+    clamp(Math.floor(((clamp(lng, -180, 180) + 180) / 360) * count), 0, count - 1)
+  const toRow = (lat: number) => {
+    const φ = toRadians(clamp(lat, -MAX_MERCATOR_LATITUDE, MAX_MERCATOR_LATITUDE))
+    const y = (1 - Math.log(Math.tan(φ) + 1 / Math.cos(φ)) / Math.PI) / 2
+    return clamp(Math.floor(y * count), 0, count - 1)
+  }
+
+  return {
+    minX: toColumn(bounds.west),
+    maxX: toColumn(bounds.east),
+    minY: toRow(bounds.north),
+    maxY: toRow(bounds.south),
+  }
+}
+
+/**
+ * Number of tiles covering the bounds over a zoom range
+ *
+ * @param bounds - Area to cover
+ * @param minZoom - Shallowest zoom level
+ * @param maxZoom - Deepest zoom level
+ */
+export function countTiles(bounds: Bounds, minZoom: number, maxZoom: number): number {
+  let total = 0
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const range = getTileRange(bounds, zoom)
+    total += (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1)
+  }
+  return total
+}
+
+/**
+ * URL of one tile
+ * Subdomains are picked the way Leaflet picks them, so the URLs match the map's
+ */
+function buildTileUrl(config: TileLayerConfig, x: number, y: number, z: number): string {
+  const subdomains = config.subdomains || ['a', 'b', 'c']
+  const s = subdomains[Math.abs(x + y) % subdomains.length]
+  return L.Util.template(config.urlTemplate, { r: '', s, x, y, z })
+}
+
+/**
+ * URL of the tile containing a point
+ *
+ * @param config - Tile source
+ * @param point - Location inside the tile
+ * @param zoom - Map zoom (clamped to the source's zoom range)
+ */
+export function getTileUrlAt(config: TileLayerConfig, point: Coordinate, zoom: number): string {
+  const z = clamp(Math.round(zoom), config.minZoom, config.maxZoom)
+  const bounds = { north: point.lat, south: point.lat, east: point.lng, west: point.lng }
+  const range = getTileRange(bounds, z)
+  return buildTileUrl(config, range.minX, range.minY, z)
+}
+
+/**
+ * URLs of the tiles covering the bounds, shallowest zoom first
+ */
+function* listTileUrls(
+  config: TileLayerConfig,
+  bounds: Bounds,
+  minZoom: number,
+  maxZoom: number
+): Generator<string> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = getTileRange(bounds, z)
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        yield buildTileUrl(config, x, y, z)
+      }
+    }
+  }
+}
+
+/**
+ * Composable for the offline tile cache
+ */
+export function useTileCache() {
+  const isSupported = isTileCacheSupported()
+  const isPrefetching = ref(false)
+  const progress = ref<TilePrefetchProgress | null>(null)
+  const error = ref<string | null>(null)
+
+  let controller: AbortController | null = null
+
+  /**
+   * Re-count the stored tiles
+   */
+  async function refreshStats(): Promise<void> {
+    if (!isSupported) return
+    try {
+      await measureCache()
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Offline cache is unavailable'
+    }
+  }
+
+  /**
+   * Delete every stored tile
+   */
+  async function clearCache(): Promise<void> {
+    if (!isSupported) return
+    try {
+      await runRequest('readwrite', (store) => store.clear())
+      stats.value = { tileCount: 0, bytes: 0 }
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Could not clear the offline cache'
+    }
+  }
+
+  /**
+   * Download every tile of an area for offline use
+   * Tiles already stored (and fresh) are not downloaded again
+   *
+   * @param config - Tile source of the map
+   * @param bounds - Area to save
+   * @param minZoom - Shallowest zoom level
+   * @param maxZoom - Deepest zoom level
+   */
+  async function prefetchArea(
+    config: TileLayerConfig,
+    bounds: Bounds,
+    minZoom: number,
+    maxZoom: number
+  ): Promise<void> {
+    error.value = null
+
+    if (!isSupported) {
+      error.value = 'Offline cache is not available in this browser'
+      return
+    }
+    if (!isCacheableTemplate(config.urlTemplate)) {
+      error.value = 'These tiles come from a local server and are already available offline'
+      return
+    }
+
+    const total = countTiles(bounds, minZoom, maxZoom)
+    if (total > TILE_CACHE_CONFIG.maxPrefetchTiles) {
+      error.value =
+        `This area needs ${total} tiles (limit ${TILE_CACHE_CONFIG.maxPrefetchTiles}). ` +
+        'Zoom in or lower the deepest zoom level.'
+      return
+    }
+
+    cancelPrefetch()
+    const current = new AbortController()
+    controller = current
+    isPrefetching.value = true
+    progress.value = { done: 0, failed: 0, total }
+
+    const urls = listTileUrls(config, bounds, minZoom, maxZoom)
+    const worker = async () => {
+      for (let next = urls.next(); !next.done; next = urls.next()) {
+        if (current.signal.aborted) return
+        const url = next.value
+
+        try {
+          const cached = await readTile(url).catch(() => undefined)
+          if (!cached || !isFresh(cached)) {
+            await writeTile(url, await fetchTile(url, current.signal))
+          }
+          if (progress.value) progress.value = { ...progress.value, done: progress.value.done + 1 }
+        } catch {
+          if (current.signal.aborted) return
+          if (progress.value) {
+            progress.value = { ...progress.value, failed: progress.value.failed + 1 }
+          }
+        }
+      }
+    }
+
+    try {
+      await Promise.all(Array.from({ length: TILE_CACHE_CONFIG.prefetchConcurrency }, worker))
+      if (progress.value?.failed) {
+        error.value = `${progress.value.failed} tiles could not be downloaded`
+      }
+    } finally {
+      if (controller === current) {
+        controller = null
+        isPrefetching.value = false
+      }
+      await refreshStats()
+    }
+  }
+
+  /**
+   * Stop a running area download (tiles saved so far are kept)
+   */
+  function cancelPrefetch(): void {
+    controller?.abort()
+    controller = null
+    isPrefetching.value = false
+  }
+
+  return {
+    // State
+    isSupported,
+    stats,
+    isPrefetching,
+    progress,
+    error,
+
+    // Methods
+    refreshStats,
+    clearCache,
+    prefetchArea,
+    cancelPrefetch,
+    countTiles,
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Tile Failover Composable
+ * Retries failed tiles with exponential backoff, switches a panel to the next
+ * basemap in its failover chain while the tile error rate stays high, and
+ * periodically checks whether a preferred basemap works again
+ */
+
+import { ref, computed, watch, onUnmounted, type Ref, type ShallowRef } from 'vue'
+import L from 'leaflet'
+import type { TileFailoverNotice, TileLayerEntry } from '../types/map.types'
+import { TILE_FAILOVER_CONFIG } from '../config/map.config'
+import { getTileUrlAt } from './useTileCache'
+
+export interface UseTileFailoverOptions {
+  /** Leaflet map of the panel */
+  map: ShallowRef<L.Map | null>
+  /** Tile layer currently on the map */
+  tileLayer: ShallowRef<L.TileLayer | null>
+  /** Preferred basemap first, then its fallbacks */
+  chain: Ref<TileLayerEntry[]>
+  /** Called for each tile that still failed after all retries */
+  onTileFailed?: (payload: { url: string; canFailOver: boolean }) => void
+}
+
+/**
+ * Whether a basemap answers with a tile for the current view
+ */
+async function probeLayer(layer: TileLayerEntry, map: L.Map): Promise<boolean> {
+  const center = map.getCenter()
+  const url = getTileUrlAt(layer.config, { lat: center.lat, lng: center.lng }, map.getZoom())
+
+  try {
+    // Bypass the HTTP cache, a tile stored before the outage proves nothing
+    const response = await fetch(url, { mode: 'cors', cache: 'no-store' })
+    return response.ok
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Composable for automatic tile provider failover
+ */
+export function useTileFailover(options: UseTileFailoverOptions) {
+  const { map, tileLayer, chain, onTileFailed } = options
+
+  const activeIndex = ref(0)
+  const notice = ref<TileFailoverNotice | null>(null)
+
+  // Recent tile results of the active basemap
+  let samples: Array<{ time: number; ok: boolean }> = []
+  const retryCounts = new WeakMap<HTMLElement, number>()
+  const retryTimers = new Set<ReturnType<typeof setTimeout>>()
+  let probeTimer: ReturnType<typeof setInterval> | null = null
+  let noticeTimer: ReturnType<typeof setTimeout> | null = null
+
+  // Basemap that should be on the map right now
+  const activeLayer = computed(() => chain.value[activeIndex.value] ?? chain.value[0]!)
+  const isFailedOver = computed(() => activeIndex.value > 0)
+
+  /**
+   * Show a notice (restored notices hide themselves)
+   */
+  function showNotice(next: TileFailoverNotice): void {
+    if (noticeTimer) clearTimeout(noticeTimer)
+    noticeTimer = null
+    notice.value = next
+
+    if (next.kind === 'restored') {
+      noticeTimer = setTimeout(dismissNotice, TILE_FAILOVER_CONFIG.restoredNoticeMs)
+    }
+  }
+
+  /**
+   * Hide the notice
+   */
+  function dismissNotice(): void {
+    if (noticeTimer) clearTimeout(noticeTimer)
+    noticeTimer = null
+    notice.value = null
+  }
+
+  /**
+   * Record a tile result and fail over when too many tiles failed recently
+   */
+  function recordResult(ok: boolean): void {
+    const now = Date.now()
+    samples = samples.filter((sample) => now - sample.time < TILE_FAILOVER_CONFIG.windowMs)
+    samples.push({ time: now, ok })
+
+    if (ok || samples.length < TILE_FAILOVER_CONFIG.minSamples) return
+
+    const failed = samples.filter((sample) => !sample.ok).length
+    if (failed / samples.length >= TILE_FAILOVER_CONFIG.errorRateThreshold) {
+      failOver()
+    }
+  }
+
+  /**
+   * Switch to the next basemap in the chain
+   * Skipped while the browser reports no connection: another server would fail
+   * too, and the current basemap may still have offline-cached tiles
+   */
+  function failOver(): void {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return
+
+    const from = activeLayer.value
+    const next = chain.value[activeIndex.value + 1]
+    samples = []
+
+    if (!next) {
+      if (notice.value?.kind !== 'unavailable') {
+        showNotice({ kind: 'unavailable', from: from.name, to: from.name })
+      }
+      return
+    }
+
+    console.warn(`[TileFailover] ${from.name} is failing, switching to ${next.name}`)
+    activeIndex.value++
+    showNotice({ kind: 'failover', from: from.name, to: next.name })
+    startProbing()
+  }
+
+  /**
+   * Return to the most preferred basemap that answers again
+   */
+  async function probePreferred(): Promise<void> {
+    if (!map.value) return
+
+    const preferred = chain.value.slice(0, activeIndex.value)
+    for (const [index, layer] of preferred.entries()) {
+      if (await probeLayer(layer, map.value)) {
+        // Chain may have changed while waiting for the probe
+        if (chain.value[index]?.id !== layer.id || index >= activeIndex.value) return
+
+        activeIndex.value = index
+        samples = []
+        showNotice({ kind: 'restored', from: layer.name, to: layer.name })
+        if (index === 0) stopProbing()
+        return
+      }
+    }
+  }
+
+  function startProbing(): void {
+    if (probeTimer) return
+    probeTimer = setInterval(() => void probePreferred(), TILE_FAILOVER_CONFIG.probeIntervalMs)
+  }
+
+  function stopProbing(): void {
+    if (probeTimer) clearInterval(probeTimer)
+    probeTimer = null
+  }
+
+  const handleTileLoad = () => recordResult(true)
+
+  // Retry the tile with exponential backoff before counting it as failed
+  const handleTileError = (event: L.TileErrorEvent) => {
+    const layer = tileLayer.value
+    const tile = event.tile as HTMLImageElement
+    if (!layer) return
+
+    const { retryAttempts = 3, retryDelay = 1000 } = activeLayer.value.config
+    const attempt = retryCounts.get(tile) ?? 0
+    const url = layer.getTileUrl(event.coords)
+
+    if (attempt < retryAttempts) {
+      retryCounts.set(tile, attempt + 1)
+      const timer = setTimeout(() => {
+        retryTimers.delete(timer)
+        // Tile scrolled away or the basemap changed meanwhile
+        if (tileLayer.value !== layer || !tile.isConnected) return
+        tile.src = url
+      }, retryDelay * 2 ** attempt)
+      retryTimers.add(timer)
+      return
+    }
+
+    onTileFailed?.({ url, canFailOver: activeIndex.value + 1 < chain.value.length })
+    recordResult(false)
+  }
+
+  // Follow the tile layer as it is swapped
+  watch(
+    tileLayer,
+    (layer, previous) => {
+      previous?.off('tileload', handleTileLoad)
+      previous?.off('tileerror', handleTileError)
+      samples = []
+      layer?.on('tileload', handleTileLoad)
+      layer?.on('tileerror', handleTileError)
+    },
+    { immediate: true }
+  )
+
+  // Another basemap picked: start over from its preferred provider
+  watch(
+    () => chain.value[0]?.id,
+    () => {
+      activeIndex.value = 0
+      samples = []
+      stopProbing()
+      dismissNotice()
+    }
+  )
+
+  onUnmounted(() => {
+    stopProbing()
+    dismissNotice()
+    retryTimers.forEach((timer) => clearTimeout(timer))
+    retryTimers.clear()
+    tileLayer.value?.off('tileload', handleTileLoad)
+    tileLayer.value?.off('tileerror', handleTileError)
+  })
+
+  return {
+    // State
+    activeLayer,
+    isFailedOver,
+    notice,
+
+    // Methods
+    dismissNotice,
+    probePreferred,
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Tile Layers Composable
+ * Basemap registry (built-in street / topo / satellite layers plus custom URL
+ * templates) and the basemap chosen in each map panel, remembered across visits
+ */
+
+import { ref, computed } from 'vue'
+import type { TileLayerEntry } from '../types/map.types'
+import {
+  CUSTOM_TILE_LAYER_CONFIG,
+  CUSTOM_TILE_LAYERS_STORAGE_KEY,
+  DEFAULT_TILE_LAYER_ID,
+  TILE_LAYER_REGISTRY,
+  TILE_LAYER_STORAGE_KEY,
+} from '../config/map.config'
+
+/**
+ * Basemap added from a user URL template
+ */
+export interface CustomTileLayerInput {
+  /** Name shown in the switcher (defaults to the template's host) */
+  name?: string
+  /** XYZ URL template containing {z}, {x} and {y} */
+  urlTemplate: string
+  /** Attribution HTML required by the tile provider */
+  attribution?: string
+}
+
+/**
+ * Rebuild a custom basemap from its stored fields
+ */
+function toCustomEntry(id: string, input: CustomTileLayerInput): TileLayerEntry {
+  return {
+    id,
+    name: input.name || input.urlTemplate,
+    custom: true,
+    allowPrefetch: true,
+    config: {
+      urlTemplate: input.urlTemplate,
+      attribution: input.attribution || CUSTOM_TILE_LAYER_CONFIG.defaultAttribution,
+      maxZoom: CUSTOM_TILE_LAYER_CONFIG.maxZoom,
+      minZoom: CUSTOM_TILE_LAYER_CONFIG.minZoom,
+    },
+  }
+}
+
+/**
+ * Read remembered custom basemaps from local storage
+ */
+function loadCustomLayers(): TileLayerEntry[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_TILE_LAYERS_STORAGE_KEY) ?? '[]')
+    if (!Array.isArray(stored)) return []
+
+    return stored
+      .filter((item) => typeof item?.id === 'string' && typeof item?.urlTemplate === 'string')
+      .map((item) => toCustomEntry(item.id, item))
+  } catch {
+    // Storage unavailable or corrupt - start without custom layers
+    return []
+  }
+}
+
+/**
+ * Read the remembered basemap of each panel from local storage
+ */
+function loadSelectedLayers(): Record<string, string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TILE_LAYER_STORAGE_KEY) ?? '{}')
+    if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+      return Object.fromEntries(
+        Object.entries(stored).filter((entry): entry is [string, string] => {
+          return typeof entry[1] === 'string'
+        })
+      )
+    }
+  } catch {
+    // Storage unavailable or corrupt - every panel uses the default
+  }
+  return {}
+}
+
+/**
+ * Write a value to local storage, ignoring unavailable storage
+ */
+function persist(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch {
+    // Storage unavailable - selection still applies to this page
+  }
+}
+
+/**
+ * Check a user URL template, returning the problem or null when usable
+ */
+function validateUrlTemplate(urlTemplate: string): string | null {
+  // Root-relative templates point at tiles served by this server (public/ or LOCAL_TILES)
+  if (!/^(https?:\/\/|\/)/i.test(urlTemplate)) {
+    return 'Tile URL must start with http://, https:// or /'
+  }
+
+  const missing = CUSTOM_TILE_LAYER_CONFIG.requiredPlaceholders.filter(
+    (placeholder) => !urlTemplate.includes(placeholder)
+  )
+  if (missing.length > 0) {
+    return `Tile URL is missing ${missing.join(', ')}`
+  }
+
+  return null
+}
+
+// Shared across all composable instances so every panel offers the same layers
+const customLayers = ref<TileLayerEntry[]>(loadCustomLayers())
+const selectedLayers = ref<Record<string, string>>(loadSelectedLayers())
+
+/**
+ * Composable for the basemap registry and per-panel basemap choice
+ */
+export function useTileLayers() {
+  // Built-in layers first, then the user's own in the order they were added
+  const availableLayers = computed<TileLayerEntry[]>(() => [
+    ...TILE_LAYER_REGISTRY,
+    ...customLayers.value,
+  ])
+
+  /**
+   * Look up a basemap by id
+   */
+  function getLayer(id: string): TileLayerEntry | undefined {
+    return availableLayers.value.find((layer) => layer.id === id)
+  }
+
+  /**
+   * Basemap chosen in a panel (default when none was chosen or it was removed)
+   *
+   * @param panelId - Map panel id
+   */
+  function getSelectedLayer(panelId: string): TileLayerEntry {
+    const id = selectedLayers.value[panelId]
+    return (id && getLayer(id)) || getLayer(DEFAULT_TILE_LAYER_ID) || TILE_LAYER_REGISTRY[0]!
+  }
+
+  /**
+   * Panel's basemap followed by its fallbacks, in failover order
+   *
+   * @param panelId - Map panel id
+   */
+  function getFailoverChain(panelId: string): TileLayerEntry[] {
+    const selected = getSelectedLayer(panelId)
+    const fallbacks = (selected.fallbacks ?? [])
+      .map((id) => getLayer(id))
+      .filter((layer): layer is TileLayerEntry => !!layer && layer.id !== selected.id)
+    return [selected, ...fallbacks]
+  }
+
+  /**
+   * Choose a panel's basemap and remember it
+   *
+   * @param panelId - Map panel id
+   * @param layerId - Registry id of the basemap
+   */
+  function selectLayer(panelId: string, layerId: string): void {
+    if (!getLayer(layerId)) return
+
+    selectedLayers.value = { ...selectedLayers.value, [panelId]: layerId }
+    persist(TILE_LAYER_STORAGE_KEY, selectedLayers.value)
+  }
+
+  /**
+   * Add a basemap from a user URL template and remember it
+   *
+   * @param input - Template, optional name and attribution
+   * @returns The new registry entry
+   * @throws Error when the template is not a usable XYZ URL
+   */
+  function addCustomLayer(input: CustomTileLayerInput): TileLayerEntry {
+    const urlTemplate = input.urlTemplate.trim()
+    const problem = validateUrlTemplate(urlTemplate)
+    if (problem) {
+      throw new Error(problem)
+    }
+
+    const existing = customLayers.value.find((layer) => layer.config.urlTemplate === urlTemplate)
+    if (existing) return existing
+
+    const id = `${CUSTOM_TILE_LAYER_CONFIG.idPrefix}${Date.now().toString(36)}`
+    const entry = toCustomEntry(id, {
+      name: input.name?.trim() || /^https?:\/\/([^/]+)/i.exec(urlTemplate)?.[1],
+      urlTemplate,
+      attribution: input.attribution?.trim(),
+    })
+
+    customLayers.value = [...customLayers.value, entry]
+    persistCustomLayers()
+    return entry
+  }
+
+  /**
+   * Forget a custom basemap (panels showing it fall back to the default)
+   *
+   * @param layerId - Registry id of the custom basemap
+   */
+  function removeCustomLayer(layerId: string): void {
+    customLayers.value = customLayers.value.filter((layer) => layer.id !== layerId)
+    persistCustomLayers()
+
+    const remaining = Object.entries(selectedLayers.value).filter(([, id]) => id !== layerId)
+    selectedLayers.value = Object.fromEntries(remaining)
+    persist(TILE_LAYER_STORAGE_KEY, selectedLayers.value)
+  }
+
+  /**
+   * Store custom basemaps as their user-supplied fields
+   */
+  function persistCustomLayers(): void {
+    persist(
+      CUSTOM_TILE_LAYERS_STORAGE_KEY,
+      customLayers.value.map((layer) => ({
+        id: layer.id,
+        name: layer.name,
+        urlTemplate: layer.config.urlTemplate,
+        attribution: layer.config.attribution,
+      }))
+    )
+  }
+
+  return {
+    // State
+    availableLayers,
+    selectedLayers,
+
+    // Methods
+    getLayer,
+    getSelectedLayer,
+    getFailoverChain,
+    selectLayer,
+    addCustomLayer,
+    removeCustomLayer,
+  }
+}
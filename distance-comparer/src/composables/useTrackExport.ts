@@ -0,0 +1,253 @@
+/**
+ * Track Export Composable
+ * Writes the left measurements and their transplanted right-map copies as a
+ * GeoJSON FeatureCollection, GPX or KML file (distance, bearing and unit included)
+ */
+
+import type { Coordinate, ExportedLine, TrackFileFormat } from '../types/map.types'
+import {
+  DISTANCE_UNIT_FACTORS,
+  DISTANCE_UNIT_LABELS,
+  TRACK_EXPORT_CONFIG,
+} from '../config/map.config'
+import { useGeodesic } from './useGeodesic'
+
+/**
+ * Round a coordinate value for export
+ */
+function roundCoordinate(value: number): number {
+  return Number(value.toFixed(TRACK_EXPORT_CONFIG.coordinatePrecision))
+}
+
+/**
+ * Vertices in drawing order, repeating the first vertex to close polygons
+ */
+function getPath(line: ExportedLine): Coordinate[] {
+  return line.closed ? [...line.vertices, line.vertices[0]!] : line.vertices
+}
+
+/**
+ * Escape text for XML content and attributes
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Convert '#RRGGBB' to KML's 'aabbggrr'
+ */
+function toKmlColor(hex: string): string {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex)
+  if (!match) return 'ff0000ff'
+
+  const [, red, green, blue] = match
+  return `ff${blue}${green}${red}`.toLowerCase()
+}
+
+/**
+ * Save a blob as a file download
+ *
+ * @param blob - File content
+ * @param fileName - Suggested file name
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Composable for exporting measurements
+ */
+export function useTrackExport() {
+  const { distanceUnit, formatDistance, formatBearing } = useGeodesic()
+
+  /**
+   * Attributes written for every line (GeoJSON properties, KML ExtendedData)
+   */
+  function getProperties(line: ExportedLine): Record<string, string | number> {
+    const unit = distanceUnit.value
+    const properties: Record<string, string | number> = {
+      name: line.name,
+      lineId: line.id,
+      map: line.side,
+      mode: line.mode,
+      color: line.color,
+      distanceMeters: Number(line.distanceMeters.toFixed(3)),
+      distance: Number((line.distanceMeters / DISTANCE_UNIT_FACTORS[unit]).toFixed(6)),
+      unit: DISTANCE_UNIT_LABELS[unit],
+      bearing: Number(line.bearing.toFixed(2)),
+    }
+
+    if (line.areaSquareMeters !== undefined) {
+      properties.areaSquareMeters = Number(line.areaSquareMeters.toFixed(1))
+    }
+
+    return properties
+  }
+
+  /**
+   * Short description: map, distance and bearing
+   */
+  function describe(line: ExportedLine): string {
+    const map = line.side === 'left' ? 'Left map' : 'Right map'
+    return `${map}: ${formatDistance(line.distanceMeters)}, bearing ${formatBearing(line.bearing)}`
+  }
+
+  /**
+   * GeoJSON FeatureCollection: LineString per line, Polygon per area
+   */
+  function buildGeoJson(lines: ExportedLine[]): string {
+    const features = lines.map((line) => {
+      const positions = getPath(line).map((point) => [
+        roundCoordinate(point.lng),
+        roundCoordinate(point.lat),
+      ])
+
+      return {
+        type: 'Feature',
+        properties: getProperties(line),
+        geometry: line.closed
+          ? { type: 'Polygon', coordinates: [positions] }
+          : { type: 'LineString', coordinates: positions },
+      }
+    })
+
+    return JSON.stringify({ type: 'FeatureCollection', features }, null, 2)
+  }
+
+  /**
+   * GPX 1.1: one track per line (polygons closed by repeating the first point)
+   */
+  function buildGpx(lines: ExportedLine[]): string {
+    const tracks = lines.map((line) => {
+      const points = getPath(line)
+        .map((point) => {
+          const lat = roundCoordinate(point.lat)
+          const lng = roundCoordinate(point.lng)
+          return `      <trkpt lat="${lat}" lon="${lng}"></trkpt>`
+        })
+        .join('\n')
+
+      return [
+        '  <trk>',
+        `    <name>${escapeXml(line.name)} (${line.side})</name>`,
+        `    <desc>${escapeXml(describe(line))}</desc>`,
+        `    <type>${line.mode}</type>`,
+        '    <trkseg>',
+        points,
+        '    </trkseg>',
+        '  </trk>',
+      ].join('\n')
+    })
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gpx version="1.1" creator="Distance Comparer" xmlns="http://www.topografix.com/GPX/1/1">',
+      ...tracks,
+      '</gpx>',
+      '',
+    ].join('\n')
+  }
+
+  /**
+   * KML 2.2: one Placemark per line with its colour and ExtendedData attributes
+   */
+  function buildKml(lines: ExportedLine[]): string {
+    const placemarks = lines.map((line) => {
+      const coordinates = getPath(line)
+        .map((point) => `${roundCoordinate(point.lng)},${roundCoordinate(point.lat)},0`)
+        .join(' ')
+      const data = Object.entries(getProperties(line))
+        .map(
+          ([key, value]) =>
+            `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`
+        )
+        .join('\n')
+      const geometry = line.closed
+        ? [
+            '      <Polygon>',
+            '        <outerBoundaryIs><LinearRing>',
+            `          <coordinates>${coordinates}</coordinates>`,
+            '        </LinearRing></outerBoundaryIs>',
+            '      </Polygon>',
+          ]
+        : [
+            '      <LineString>',
+            '        <tessellate>1</tessellate>',
+            `        <coordinates>${coordinates}</coordinates>`,
+            '      </LineString>',
+          ]
+
+      return [
+        '    <Placemark>',
+        `      <name>${escapeXml(line.name)} (${line.side})</name>`,
+        `      <description>${escapeXml(describe(line))}</description>`,
+        '      <Style>',
+        `        <LineStyle><color>${toKmlColor(line.color)}</color><width>3</width></LineStyle>`,
+        '        <PolyStyle><fill>0</fill></PolyStyle>',
+        '      </Style>',
+        '      <ExtendedData>',
+        data,
+        '      </ExtendedData>',
+        ...geometry,
+        '    </Placemark>',
+      ].join('\n')
+    })
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<kml xmlns="http://www.opengis.net/kml/2.2">',
+      '  <Document>',
+      `    <name>${TRACK_EXPORT_CONFIG.fileName}</name>`,
+      ...placemarks,
+      '  </Document>',
+      '</kml>',
+      '',
+    ].join('\n')
+  }
+
+  /**
+   * Serialize lines in the given format
+   */
+  function buildFile(lines: ExportedLine[], format: TrackFileFormat): string {
+    if (format === 'gpx') return buildGpx(lines)
+    if (format === 'kml') return buildKml(lines)
+    return buildGeoJson(lines)
+  }
+
+  /**
+   * Save lines as a file download
+   *
+   * @param lines - Left and right geometry of every measurement
+   * @param format - File format
+   */
+  function downloadLines(lines: ExportedLine[], format: TrackFileFormat): void {
+    const { extension, mimeType } = TRACK_EXPORT_CONFIG.files[format]
+    const date = new Date().toISOString().slice(0, 10)
+    const blob = new Blob([buildFile(lines, format)], { type: mimeType })
+    downloadBlob(blob, `${TRACK_EXPORT_CONFIG.fileName}-${date}.${extension}`)
+  }
+
+  return {
+    // Methods
+    buildGeoJson,
+    buildGpx,
+    buildKml,
+    buildFile,
+    downloadLines,
+  }
+}
@@ -0,0 +1,452 @@
+/**
+ * Track Import Composable
+ * Reads GeoJSON LineString/MultiLineString, GPX tracks/routes and KML LineStrings
+ * from local files (no network) and turns every line into measurable vertices
+ */
+
+import { ref } from 'vue'
+import type { Bounds, Coordinate, ImportedTrack, TrackFileFormat } from '../types/map.types'
+import { TRACK_IMPORT_CONFIG } from '../config/map.config'
+import { useGeodesic } from './useGeodesic'
+
+// Mean Earth radius used for the local planar approximation when simplifying
+const EARTH_RADIUS_METERS = 6371008.8
+
+/**
+ * Line read from a file before measuring and simplifying
+ */
+interface RawTrack {
+  name?: string
+  points: Coordinate[]
+}
+
+/**
+ * Read a number from a file value; missing or blank values are NaN, not 0
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value
+  if (typeof value !== 'string' || value.trim() === '') return NaN
+  return Number(value)
+}
+
+/**
+ * Build a coordinate, or null if it is not a valid position
+ */
+function toCoordinate(lat: number, lng: number): Coordinate | null {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null
+  return { lat, lng }
+}
+
+/**
+ * Drop invalid positions and consecutive duplicates
+ */
+function cleanPoints(points: (Coordinate | null)[]): Coordinate[] {
+  const cleaned: Coordinate[] = []
+
+  for (const point of points) {
+    if (!point) continue
+
+    const previous = cleaned[cleaned.length - 1]
+    if (previous && previous.lat === point.lat && previous.lng === point.lng) continue
+
+    cleaned.push(point)
+  }
+
+  return cleaned
+}
+
+/**
+ * Guess the format from the file extension, falling back to the content
+ */
+function detectFormat(fileName: string, text: string): TrackFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'gpx') return 'gpx'
+  if (extension === 'kml') return 'kml'
+  if (extension === 'geojson' || extension === 'json') return 'geojson'
+
+  const start = text.trimStart()
+  if (start.startsWith('{')) return 'geojson'
+  if (/<gpx[\s>]/.test(start)) return 'gpx'
+  if (/<kml[\s>]/.test(start)) return 'kml'
+  return null
+}
+
+/**
+ * Convert GeoJSON positions ([lng, lat, elevation?]) to coordinates
+ */
+function parseGeoJsonPositions(positions: unknown): Coordinate[] {
+  if (!Array.isArray(positions)) return []
+
+  return cleanPoints(
+    positions.map((position) =>
+      Array.isArray(position) ? toCoordinate(toNumber(position[1]), toNumber(position[0])) : null
+    )
+  )
+}
+
+/**
+ * Collect LineString / MultiLineString geometries from any GeoJSON object
+ */
+function collectGeoJsonTracks(value: unknown, name: string | undefined, tracks: RawTrack[]): void {
+  if (typeof value !== 'object' || value === null) return
+  const object = value as Record<string, unknown>
+
+  switch (object.type) {
+    case 'FeatureCollection':
+      for (const feature of Array.isArray(object.features) ? object.features : []) {
+        collectGeoJsonTracks(feature, undefined, tracks)
+      }
+      break
+    case 'Feature': {
+      const properties =
+        typeof object.properties === 'object' && object.properties !== null
+          ? (object.properties as Record<string, unknown>)
+          : {}
+      const featureName = properties.name ?? properties.title
+      collectGeoJsonTracks(
+        object.geometry,
+        typeof featureName === 'string' ? featureName : undefined,
+        tracks
+      )
+      break
+    }
+    case 'GeometryCollection':
+      for (const geometry of Array.isArray(object.geometries) ? object.geometries : []) {
+        collectGeoJsonTracks(geometry, name, tracks)
+      }
+      break
+    case 'LineString':
+      tracks.push({ name, points: parseGeoJsonPositions(object.coordinates) })
+      break
+    case 'MultiLineString':
+      for (const part of Array.isArray(object.coordinates) ? object.coordinates : []) {
+        tracks.push({ name, points: parseGeoJsonPositions(part) })
+      }
+      break
+  }
+}
+
+/**
+ * Parse a GeoJSON document
+ */
+function parseGeoJson(text: string): RawTrack[] {
+  let document: unknown
+  try {
+    document = JSON.parse(text)
+  } catch {
+    throw new Error('not a valid GeoJSON file')
+  }
+
+  const tracks: RawTrack[] = []
+  collectGeoJsonTracks(document, undefined, tracks)
+  return tracks
+}
+
+/**
+ * Parse an XML document, rejecting malformed files
+ */
+function parseXml(text: string, formatName: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml')
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`not a valid ${formatName} file`)
+  }
+  return document
+}
+
+/**
+ * Elements with the given local name, whatever their namespace
+ */
+function elementsByName(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName))
+}
+
+/**
+ * Text of the element's own <name> child, if any
+ */
+function childName(element: Element | null): string | undefined {
+  if (!element) return undefined
+
+  const nameElement = Array.from(element.children).find((child) => child.localName === 'name')
+  const name = nameElement?.textContent?.trim()
+  return name || undefined
+}
+
+/**
+ * Read lat/lon attributes of GPX points
+ */
+function parseGpxPoints(points: Element[]): Coordinate[] {
+  return cleanPoints(
+    points.map((point) =>
+      toCoordinate(toNumber(point.getAttribute('lat')), toNumber(point.getAttribute('lon')))
+    )
+  )
+}
+
+/**
+ * Parse a GPX document: one line per track segment and per route
+ */
+function parseGpx(text: string): RawTrack[] {
+  const document = parseXml(text, 'GPX')
+  const tracks: RawTrack[] = []
+
+  for (const track of elementsByName(document, 'trk')) {
+    const name = childName(track)
+    for (const segment of elementsByName(track, 'trkseg')) {
+      tracks.push({ name, points: parseGpxPoints(elementsByName(segment, 'trkpt')) })
+    }
+  }
+
+  for (const route of elementsByName(document, 'rte')) {
+    tracks.push({ name: childName(route), points: parseGpxPoints(elementsByName(route, 'rtept')) })
+  }
+
+  return tracks
+}
+
+/**
+ * Parse a KML document: one line per LineString (including inside MultiGeometry)
+ */
+function parseKml(text: string): RawTrack[] {
+  const document = parseXml(text, 'KML')
+
+  return elementsByName(document, 'LineString').map((lineString) => {
+    const coordinates = elementsByName(lineString, 'coordinates')[0]?.textContent ?? ''
+    const points = coordinates
+      .trim()
+      .split(/\s+/)
+      .map((tuple) => {
+        const [lng, lat] = tuple.split(',').map(toNumber)
+        return toCoordinate(lat ?? NaN, lng ?? NaN)
+      })
+
+    return {
+      name: childName(lineString.closest('Placemark')),
+      points: cleanPoints(points),
+    }
+  })
+}
+
+/**
+ * Distance of a point from a segment in meters (local equirectangular approximation)
+ */
+function distanceFromSegment(point: Coordinate, start: Coordinate, end: Coordinate): number {
+  const metersPerDegree = (Math.PI / 180) * EARTH_RADIUS_METERS
+  const cosLat = Math.cos((start.lat * Math.PI) / 180)
+  const project = (coord: Coordinate) => ({
+    x: (coord.lng - start.lng) * cosLat * metersPerDegree,
+    y: (coord.lat - start.lat) * metersPerDegree,
+  })
+
+  const p = project(point)
+  const e = project(end)
+  const lengthSquared = e.x * e.x + e.y * e.y
+  const t =
+    lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (p.x * e.x + p.y * e.y) / lengthSquared))
+
+  return Math.hypot(p.x - t * e.x, p.y - t * e.y)
+}
+
+/**
+ * Douglas-Peucker simplification (iterative) with a fixed tolerance
+ * Returns the indices of the points that are kept
+ */
+function simplifyWithTolerance(points: Coordinate[], toleranceMeters: number): number[] {
+  const keep = new Array<boolean>(points.length).fill(false)
+  keep[0] = true
+  keep[points.length - 1] = true
+
+  const ranges: [number, number][] = [[0, points.length - 1]]
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!
+    let farthestIndex = -1
+    let farthestDistance = toleranceMeters
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceFromSegment(points[i]!, points[first]!, points[last]!)
+      if (distance > farthestDistance) {
+        farthestIndex = i
+        farthestDistance = distance
+      }
+    }
+
+    if (farthestIndex !== -1) {
+      keep[farthestIndex] = true
+      ranges.push([first, farthestIndex], [farthestIndex, last])
+    }
+  }
+
+  return points.flatMap((_, index) => (keep[index] ? [index] : []))
+}
+
+/**
+ * Reduce a long track to at most maxVertices, doubling the tolerance until it fits
+ * Vertices are kept where the track bends; the points in between are returned
+ * per leg (vertex i to i + 1) so the true length is not lost
+ */
+function simplifyTrack(
+  points: Coordinate[],
+  maxVertices: number
+): { vertices: Coordinate[]; segments: Coordinate[][] } {
+  let tolerance = TRACK_IMPORT_CONFIG.simplifyToleranceMeters
+  let kept = points.map((_, index) => index)
+
+  while (kept.length > maxVertices) {
+    kept = simplifyWithTolerance(points, tolerance)
+    tolerance *= 2
+  }
+
+  return {
+    vertices: kept.map((index) => points[index]!),
+    segments: kept.slice(1).map((end, leg) => points.slice(kept[leg]!, end + 1)),
+  }
+}
+
+/**
+ * File name without its extension (default track name)
+ */
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '') || fileName
+}
+
+/**
+ * Composable for importing tracks from local files
+ */
+export function useTrackImport() {
+  const { calculatePathDistance } = useGeodesic()
+
+  const isImporting = ref(false)
+  const error = ref<string | null>(null)
+
+  /**
+   * Parse the text of a track file
+   *
+   * @param text - File content
+   * @param fileName - File name (format detection and default track name)
+   * @returns Every line with at least two points, in file order
+   * @throws Error if the format is unknown, the file is malformed or it holds no lines
+   */
+  function parseTrackText(text: string, fileName: string): ImportedTrack[] {
+    const format = detectFormat(fileName, text)
+    if (!format) {
+      throw new Error(`${fileName}: unsupported file (use GeoJSON, GPX or KML)`)
+    }
+
+    let rawTracks: RawTrack[]
+    try {
+      rawTracks =
+        format === 'gpx' ? parseGpx(text) : format === 'kml' ? parseKml(text) : parseGeoJson(text)
+    } catch (err) {
+      throw new Error(`${fileName}: ${err instanceof Error ? err.message : 'could not be read'}`)
+    }
+
+    const usable = rawTracks.filter((track) => track.points.length >= 2)
+    if (usable.length === 0) {
+      throw new Error(`${fileName}: no lines or tracks found`)
+    }
+
+    // Unnamed lines take the file name; parts sharing a name are numbered
+    const names = usable.map((track) => track.name ?? baseName(fileName))
+    const totals = new Map<string, number>()
+    for (const name of names) {
+      totals.set(name, (totals.get(name) ?? 0) + 1)
+    }
+
+    const seen = new Map<string, number>()
+    return usable.map((track, index) => {
+      const name = names[index]!
+      const count = (seen.get(name) ?? 0) + 1
+      seen.set(name, count)
+
+      return {
+        name: totals.get(name)! > 1 ? `${name} ${count}` : name,
+        format,
+        ...simplifyTrack(track.points, TRACK_IMPORT_CONFIG.maxVertices),
+        sourcePointCount: track.points.length,
+        distanceMeters: calculatePathDistance(track.points),
+      }
+    })
+  }
+
+  /**
+   * Read and parse local files
+   * Files that fail are reported in `error`; the others are still imported
+   *
+   * @param files - Files from the picker or a drop
+   * @returns Tracks from all readable files
+   */
+  async function importFiles(files: File[]): Promise<ImportedTrack[]> {
+    isImporting.value = true
+    error.value = null
+
+    const tracks: ImportedTrack[] = []
+    const failures: string[] = []
+
+    try {
+      for (const file of files) {
+        if (file.size > TRACK_IMPORT_CONFIG.maxFileBytes) {
+          failures.push(`${file.name}: file is too large`)
+          continue
+        }
+
+        let text: string
+        try {
+          text = await file.text()
+        } catch {
+          failures.push(`${file.name}: could not be read`)
+          continue
+        }
+
+        try {
+          tracks.push(...parseTrackText(text, file.name))
+        } catch (err) {
+          failures.push(err instanceof Error ? err.message : `${file.name}: could not be read`)
+        }
+      }
+    } finally {
+      isImporting.value = false
+    }
+
+    if (failures.length > 0) {
+      error.value = failures.join('; ')
+      console.error('Track import error:', error.value)
+    }
+
+    return tracks
+  }
+
+  /**
+   * Extent of all vertices of the given tracks (for framing the map)
+   */
+  function getTracksBounds(tracks: ImportedTrack[]): Bounds {
+    const points = tracks.flatMap((track) => track.vertices)
+    const lats = points.map((point) => point.lat)
+    const lngs = points.map((point) => point.lng)
+
+    return {
+      north: Math.max(...lats),
+      south: Math.min(...lats),
+      east: Math.max(...lngs),
+      west: Math.min(...lngs),
+    }
+  }
+
+  /**
+   * Forget the last error
+   */
+  function clearError(): void {
+    error.value = null
+  }
+
+  return {
+    // State
+    isImporting,
+    error,
+
+    // Methods
+    parseTrackText,
+    importFiles,
+    getTracksBounds,
+    clearError,
+  }
+}
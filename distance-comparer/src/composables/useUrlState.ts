@@ -0,0 +1,239 @@
+/**
+ * URL State Composable
+ * Encodes map views, measurements, right-map placement and display units into
+ * the URL hash so a comparison can be restored on reload or shared as a link
+ *
+ * Format (hash parameters):
+ *   v=1
+ *   l=<lat>,<lng>,<zoom>            left map view
+ *   r=<lat>,<lng>,<zoom>            right map view
+ *   g=<haversine|vincenty>          Earth model
+ *   au=<area unit>                  area display unit
+ *   du=<distance unit>              distance display unit
+ *   line=<mode>:<lat>,<lng>;...[~<leg length>,...][@<lat>,<lng>,<bearing>]   (repeated per line)
+ *
+ * Leg lengths (meters) are written for imported tracks, whose vertices are
+ * simplified: they keep the length measured along every recorded point
+ */
+
+import type {
+  AreaUnit,
+  Coordinate,
+  DistanceUnit,
+  GeodesicModel,
+  MapView,
+  MeasurementMode,
+  ShareableState,
+  SharedLineState,
+} from '../types/map.types'
+import {
+  AREA_UNIT_LABELS,
+  DISTANCE_UNIT_LABELS,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  URL_STATE_CONFIG,
+} from '../config/map.config'
+import { useGeodesic } from './useGeodesic'
+
+const MEASUREMENT_MODES: readonly MeasurementMode[] = ['line', 'path', 'polygon']
+const GEODESIC_MODELS: readonly GeodesicModel[] = ['haversine', 'vincenty']
+// Own keys only: `in` would also accept inherited names such as "constructor"
+const AREA_UNITS = Object.keys(AREA_UNIT_LABELS) as AreaUnit[]
+const DISTANCE_UNITS = Object.keys(DISTANCE_UNIT_LABELS) as DistanceUnit[]
+
+// Characters that are legal in a URL fragment and keep links readable
+const READABLE_ESCAPES: Record<string, string> = {
+  '%2C': ',',
+  '%3B': ';',
+  '%3A': ':',
+  '%40': '@',
+  '%7E': '~',
+}
+
+/**
+ * Round a number and drop trailing zeros
+ */
+function formatNumber(value: number, precision: number): string {
+  return String(Number(value.toFixed(precision)))
+}
+
+/**
+ * Parse a comma-separated list of finite numbers
+ * Returns null if any part is missing, empty or not a number
+ *
+ * @param count - Expected number of parts (any number if omitted)
+ */
+function parseNumbers(text: string, count?: number): number[] | null {
+  const parts = text.split(',')
+  if (count !== undefined && parts.length !== count) return null
+  if (parts.some((part) => part.trim() === '')) return null
+
+  const numbers = parts.map(Number)
+  return numbers.every(Number.isFinite) ? numbers : null
+}
+
+/**
+ * Composable for reading and writing shareable URL state
+ */
+export function useUrlState() {
+  const { isValidCoordinate } = useGeodesic()
+
+  function encodeCoordinate(coord: Coordinate): string {
+    const p = URL_STATE_CONFIG.coordinatePrecision
+    return `${formatNumber(coord.lat, p)},${formatNumber(coord.lng, p)}`
+  }
+
+  function decodeCoordinate(text: string): Coordinate | null {
+    const numbers = parseNumbers(text, 2)
+    if (!numbers) return null
+
+    const coord = { lat: numbers[0]!, lng: numbers[1]! }
+    return isValidCoordinate(coord) ? coord : null
+  }
+
+  function encodeView(view: MapView): string {
+    return `${encodeCoordinate(view.center)},${formatNumber(view.zoom, URL_STATE_CONFIG.anglePrecision)}`
+  }
+
+  function decodeView(text: string | null): MapView | undefined {
+    if (!text) return undefined
+
+    const numbers = parseNumbers(text, 3)
+    if (!numbers) return undefined
+
+    const center = { lat: numbers[0]!, lng: numbers[1]! }
+    if (!isValidCoordinate(center)) return undefined
+
+    return { center, zoom: Math.min(Math.max(numbers[2]!, MIN_ZOOM), MAX_ZOOM) }
+  }
+
+  function encodeLine(line: SharedLineState): string {
+    let encoded = `${line.mode}:${line.vertices.map(encodeCoordinate).join(';')}`
+
+    if (line.legLengths) {
+      const p = URL_STATE_CONFIG.lengthPrecision
+      encoded += `~${line.legLengths.map((length) => formatNumber(length, p)).join(',')}`
+    }
+
+    if (line.rightAnchor) {
+      const bearing = formatNumber(line.rightBearing ?? 0, URL_STATE_CONFIG.anglePrecision)
+      encoded += `@${encodeCoordinate(line.rightAnchor)},${bearing}`
+    }
+
+    return encoded
+  }
+
+  function decodeLine(text: string): SharedLineState | null {
+    const [track, placement] = text.split('@')
+    const [geometry, legs] = track?.split('~') ?? []
+    const separator = geometry?.indexOf(':') ?? -1
+    if (!geometry || separator < 0) return null
+
+    const mode = geometry.slice(0, separator) as MeasurementMode
+    if (!MEASUREMENT_MODES.includes(mode)) return null
+
+    const vertices = geometry.slice(separator + 1).split(';').map(decodeCoordinate)
+    if (vertices.some((v) => v === null)) return null
+
+    const minVertices = mode === 'polygon' ? 3 : 2
+    if (vertices.length < minVertices || (mode === 'line' && vertices.length !== 2)) {
+      return null
+    }
+
+    const line: SharedLineState = { mode, vertices: vertices as Coordinate[] }
+
+    // Leg lengths only belong to paths, one per leg
+    if (legs && mode === 'path') {
+      const lengths = parseNumbers(legs, vertices.length - 1)
+      if (lengths?.every((length) => length >= 0)) {
+        line.legLengths = lengths
+      }
+    }
+
+    if (placement) {
+      const numbers = parseNumbers(placement, 3)
+      const anchor = numbers ? { lat: numbers[0]!, lng: numbers[1]! } : null
+      if (numbers && anchor && isValidCoordinate(anchor)) {
+        line.rightAnchor = anchor
+        line.rightBearing = numbers[2]!
+      }
+    }
+
+    return line
+  }
+
+  /**
+   * Encode state into a hash string (without the leading '#')
+   * 
+   * @param state - Application state to share
+   * @returns Hash parameter string
+   */
+  function encodeState(state: ShareableState): string {
+    const params = new URLSearchParams()
+    params.set('v', String(URL_STATE_CONFIG.version))
+
+    if (state.leftView) params.set('l', encodeView(state.leftView))
+    if (state.rightView) params.set('r', encodeView(state.rightView))
+    if (state.geodesicModel) params.set('g', state.geodesicModel)
+    if (state.areaUnit) params.set('au', state.areaUnit)
+    if (state.distanceUnit) params.set('du', state.distanceUnit)
+    state.lines.forEach((line) => params.append('line', encodeLine(line)))
+
+    return Object.entries(READABLE_ESCAPES).reduce(
+      (encoded, [escape, char]) => encoded.split(escape).join(char),
+      params.toString()
+    )
+  }
+
+  /**
+   * Decode state from a hash string
+   * Invalid parts are skipped rather than rejecting the whole link
+   * 
+   * @param hash - Hash string, with or without the leading '#'
+   * @returns Decoded state, or null if the hash holds no (supported) state
+   */
+  function decodeState(hash: string): ShareableState | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''))
+    if (params.get('v') !== String(URL_STATE_CONFIG.version)) return null
+
+    const geodesicModel = params.get('g') as GeodesicModel | null
+    const areaUnit = params.get('au') as AreaUnit | null
+    const distanceUnit = params.get('du') as DistanceUnit | null
+
+    return {
+      leftView: decodeView(params.get('l')),
+      rightView: decodeView(params.get('r')),
+      lines: params
+        .getAll('line')
+        .map(decodeLine)
+        .filter((line): line is SharedLineState => line !== null),
+      geodesicModel:
+        geodesicModel && GEODESIC_MODELS.includes(geodesicModel) ? geodesicModel : undefined,
+      areaUnit: areaUnit && AREA_UNITS.includes(areaUnit) ? areaUnit : undefined,
+      distanceUnit:
+        distanceUnit && DISTANCE_UNITS.includes(distanceUnit) ? distanceUnit : undefined,
+    }
+  }
+
+  /**
+   * Read state from the current page URL
+   */
+  function readFromLocation(): ShareableState | null {
+    return decodeState(window.location.hash)
+  }
+
+  /**
+   * Write state to the current page URL without adding history entries
+   */
+  function writeToLocation(state: ShareableState): void {
+    const url = `${window.location.pathname}${window.location.search}#${encodeState(state)}`
+    window.history.replaceState(window.history.state, '', url)
+  }
+
+  return {
+    encodeState,
+    decodeState,
+    readFromLocation,
+    writeToLocation,
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * View Sync Composable
+ * Keeps the two maps in step: same zoom, same ground scale (metres per pixel,
+ * compensating the Mercator stretch between latitudes), or same scale plus
+ * mirrored panning. With anchors (overlay and swipe layouts) the two anchor
+ * points are also kept on the same screen position.
+ * Whichever map the user moves leads; the other follows
+ */
+
+import { computed, watch, onUnmounted, type Ref } from 'vue'
+import type L from 'leaflet'
+import type { Coordinate, ViewAnchors, ViewSyncMode } from '../types/map.types'
+import { VIEW_SYNC_ZOOM_TOLERANCE } from '../config/map.config'
+import { useMapEvents } from './useMapEvents'
+import { useMapNavigation } from './useMapNavigation'
+
+export interface UseViewSyncOptions {
+  /** Left (or top) map */
+  leftMap: Ref<L.Map | null>
+  /** Right (or bottom) map */
+  rightMap: Ref<L.Map | null>
+  /** Selected sync mode */
+  mode: Ref<ViewSyncMode>
+  /** Points to draw on top of each other at the same ground scale (overrides the mode) */
+  anchors?: Ref<ViewAnchors | null>
+}
+
+type Side = 'left' | 'right'
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180
+
+const toKey = (point: Coordinate): string => `${point.lat},${point.lng}`
+
+/**
+ * Zoom at which a map centred on `targetLat` shows the same metres per pixel
+ * as a map centred on `sourceLat` at `sourceZoom`
+ * Web Mercator resolution is proportional to cos(latitude) / 2^zoom
+ */
+export function getScaleMatchedZoom(
+  sourceLat: number,
+  sourceZoom: number,
+  targetLat: number
+): number {
+  const sourceCos = Math.max(Math.cos(toRadians(sourceLat)), 1e-6)
+  const targetCos = Math.max(Math.cos(toRadians(targetLat)), 1e-6)
+  return sourceZoom + Math.log2(targetCos / sourceCos)
+}
+
+/**
+ * Composable for synchronising the views of two maps
+ */
+export function useViewSync(options: UseViewSyncOptions) {
+  const { leftMap, rightMap, mode, anchors } = options
+
+  const maps: Record<Side, Ref<L.Map | null>> = { left: leftMap, right: rightMap }
+  const navigation: Record<Side, ReturnType<typeof useMapNavigation>> = {
+    left: useMapNavigation({ map: leftMap }),
+    right: useMapNavigation({ map: rightMap }),
+  }
+
+  // Centre of each map after the last sync (reference for mirrored pan offsets)
+  const lastCenters: Record<Side, L.LatLng | null> = { left: null, right: null }
+
+  // Zoom snapping of each map before scale matching made zoom fractional
+  const originalZoomSnap = new Map<L.Map, number | undefined>()
+
+  const otherSide = (side: Side): Side => (side === 'left' ? 'right' : 'left')
+
+  /**
+   * Allow fractional zoom levels (scale matching rarely lands on whole zooms)
+   */
+  function setFractionalZoom(enabled: boolean): void {
+    for (const map of [leftMap.value, rightMap.value]) {
+      if (!map) continue
+
+      if (enabled && !originalZoomSnap.has(map)) {
+        originalZoomSnap.set(map, map.options.zoomSnap)
+        map.options.zoomSnap = 0
+      } else if (!enabled && originalZoomSnap.has(map)) {
+        map.options.zoomSnap = originalZoomSnap.get(map)
+        originalZoomSnap.delete(map)
+      }
+    }
+  }
+
+  /**
+   * Zoom the follower should use for the leader's current view
+   */
+  function getTargetZoom(source: L.Map, target: L.Map): number {
+    const sourceZoom = source.getZoom()
+    if (mode.value === 'zoom') return sourceZoom
+
+    return getScaleMatchedZoom(source.getCenter().lat, sourceZoom, target.getCenter().lat)
+  }
+
+  /**
+   * Move the follower so its anchor sits under the leader's anchor at the same
+   * ground scale (both maps share one viewport, so container points match)
+   */
+  function alignAnchors(side: Side, source: L.Map, target: L.Map, points: ViewAnchors): void {
+    const sourceAnchor = points[side]
+    const targetAnchor = points[otherSide(side)]
+
+    const zoom = Math.min(
+      Math.max(
+        getScaleMatchedZoom(sourceAnchor.lat, source.getZoom(), targetAnchor.lat),
+        target.getMinZoom()
+      ),
+      target.getMaxZoom()
+    )
+    const screenPoint = source.latLngToContainerPoint([sourceAnchor.lat, sourceAnchor.lng])
+    const centerPoint = target
+      .project([targetAnchor.lat, targetAnchor.lng], zoom)
+      .subtract(screenPoint)
+      .add(target.getSize().divideBy(2))
+
+    const shift = target.project(target.getCenter(), zoom).distanceTo(centerPoint)
+    if (Math.abs(zoom - target.getZoom()) <= VIEW_SYNC_ZOOM_TOLERANCE && shift < 1) return
+
+    const center = target.unproject(centerPoint, zoom)
+    navigation[otherSide(side)].setView({ lat: center.lat, lng: center.lng }, zoom, {
+      animate: false,
+    })
+  }
+
+  /**
+   * Bring the other map in line with the map that just moved
+   */
+  function syncFrom(side: Side): void {
+    const source = maps[side].value
+    const target = maps[otherSide(side)].value
+    if (!source || !target) return
+
+    const previousCenter = lastCenters[side]
+    lastCenters[side] = source.getCenter()
+
+    const points = anchors?.value
+    if (points) {
+      alignAnchors(side, source, target, points)
+      lastCenters[otherSide(side)] = target.getCenter()
+      return
+    }
+
+    if (mode.value === 'independent') return
+
+    const zoom = Math.min(
+      Math.max(getTargetZoom(source, target), target.getMinZoom()),
+      target.getMaxZoom()
+    )
+    if (Math.abs(zoom - target.getZoom()) > VIEW_SYNC_ZOOM_TOLERANCE) {
+      const center = target.getCenter()
+      navigation[otherSide(side)].setView({ lat: center.lat, lng: center.lng }, zoom, {
+        animate: false,
+      })
+    }
+
+    // Mirror the leader's pan as a pixel offset (equal ground distance at matched scale)
+    if (mode.value === 'pan' && previousCenter) {
+      const offset = source.project(lastCenters[side]!).subtract(source.project(previousCenter))
+      if (Math.abs(offset.x) >= 1 || Math.abs(offset.y) >= 1) {
+        navigation[otherSide(side)].panBy(offset.x, offset.y, { animate: false })
+      }
+    }
+
+    // The follower's own moveend arrives later; its moves are accounted for now
+    lastCenters[otherSide(side)] = target.getCenter()
+  }
+
+  useMapEvents({ map: leftMap }, { onCenterChanged: () => syncFrom('left') })
+  useMapEvents({ map: rightMap }, { onCenterChanged: () => syncFrom('right') })
+
+  const hasAnchors = computed(() => Boolean(anchors?.value))
+
+  // Mode picked (or maps ready): the left map leads the first sync
+  watch(
+    [mode, leftMap, rightMap, hasAnchors],
+    () => {
+      setFractionalZoom(hasAnchors.value || mode.value === 'scale' || mode.value === 'pan')
+      lastCenters.right = rightMap.value?.getCenter() ?? null
+      syncFrom('left')
+    },
+    { immediate: true }
+  )
+
+  // Anchor moved (a line dragged or another line selected): the map whose
+  // anchor moved stays put and the other map follows
+  watch(
+    () => {
+      const points = anchors?.value
+      return points ? { left: toKey(points.left), right: toKey(points.right) } : null
+    },
+    (keys, previousKeys) => {
+      if (!keys || !previousKeys) return
+      if (keys.left === previousKeys.left && keys.right === previousKeys.right) return
+      syncFrom(keys.left !== previousKeys.left ? 'left' : 'right')
+    }
+  )
+
+  onUnmounted(() => setFractionalZoom(false))
+
+  return {
+    // Methods
+    syncFrom,
+  }
+}
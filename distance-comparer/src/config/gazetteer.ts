@@ -0,0 +1,80 @@
+/**
+ * Offline gazetteer
+ * Small built-in list of well-known places for the offline geocoding provider
+ * (used without network access and for deterministic testing)
+ */
+
+import type { GeocodingResult } from '../types/map.types'
+
+export const GAZETTEER_PLACES: GeocodingResult[] = [
+  {
+    id: 'gazetteer-amsterdam',
+    name: 'Amsterdam, Netherlands',
+    center: { lat: 52.3676, lng: 4.9041 },
+    bounds: { north: 52.4311, south: 52.2782, east: 5.0792, west: 4.7287 },
+  },
+  {
+    id: 'gazetteer-berlin',
+    name: 'Berlin, Germany',
+    center: { lat: 52.52, lng: 13.405 },
+    bounds: { north: 52.6755, south: 52.3383, east: 13.7612, west: 13.0884 },
+  },
+  {
+    id: 'gazetteer-london',
+    name: 'London, United Kingdom',
+    center: { lat: 51.5074, lng: -0.1278 },
+    bounds: { north: 51.6919, south: 51.2868, east: 0.334, west: -0.5104 },
+  },
+  {
+    id: 'gazetteer-paris',
+    name: 'Paris, France',
+    center: { lat: 48.8566, lng: 2.3522 },
+    bounds: { north: 48.9022, south: 48.8156, east: 2.4699, west: 2.2242 },
+  },
+  {
+    id: 'gazetteer-new-york',
+    name: 'New York City, United States',
+    center: { lat: 40.7128, lng: -74.006 },
+    bounds: { north: 40.9176, south: 40.4774, east: -73.7004, west: -74.2591 },
+  },
+  {
+    id: 'gazetteer-san-francisco',
+    name: 'San Francisco, United States',
+    center: { lat: 37.7749, lng: -122.4194 },
+    bounds: { north: 37.833, south: 37.7034, east: -122.3482, west: -122.5149 },
+  },
+  {
+    id: 'gazetteer-tokyo',
+    name: 'Tokyo, Japan',
+    center: { lat: 35.6762, lng: 139.6503 },
+    bounds: { north: 35.8984, south: 35.5014, east: 139.9188, west: 139.5629 },
+  },
+  {
+    id: 'gazetteer-sydney',
+    name: 'Sydney, Australia',
+    center: { lat: -33.8688, lng: 151.2093 },
+    bounds: { north: -33.5781, south: -34.1183, east: 151.3431, west: 150.5209 },
+  },
+  {
+    id: 'gazetteer-rio-de-janeiro',
+    name: 'Rio de Janeiro, Brazil',
+    center: { lat: -22.9068, lng: -43.1729 },
+    bounds: { north: -22.7461, south: -23.0828, east: -43.0996, west: -43.7962 },
+  },
+  {
+    id: 'gazetteer-cape-town',
+    name: 'Cape Town, South Africa',
+    center: { lat: -33.9249, lng: 18.4241 },
+    bounds: { north: -33.4711, south: -34.3582, east: 18.9868, west: 18.3074 },
+  },
+  {
+    id: 'gazetteer-mount-everest',
+    name: 'Mount Everest, Nepal',
+    center: { lat: 27.9881, lng: 86.925 },
+  },
+  {
+    id: 'gazetteer-null-island',
+    name: 'Null Island',
+    center: { lat: 0, lng: 0 },
+  },
+]
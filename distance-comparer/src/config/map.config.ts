@@ -3,7 +3,22 @@
  * Based on OpenStreetMap tile service and project requirements
  */
 
-import type { Coordinate, MapConfig, TileLayerConfig } from '../types/map.types'
+import type {
+  Coordinate,
+  CoordinateFormat,
+  DistanceUnit,
+  GeodesicModel,
+  HistoryAction,
+  LayoutMode,
+  MapConfig,
+  NumberLocale,
+  RotationPivot,
+  SnapshotFormat,
+  TileLayerConfig,
+  TileLayerEntry,
+  TrackFileFormat,
+  ViewSyncMode,
+} from '../types/map.types'
 
 // ============================================================================
 // Default Values
@@ -64,6 +79,169 @@ export const WIKIMEDIA_TILE_CONFIG: TileLayerConfig = {
   retryDelay: 1000,
 }
 
+/**
+ * OpenTopoMap tile layer configuration (contours and hill shading)
+ */
+export const OPENTOPOMAP_TILE_CONFIG: TileLayerConfig = {
+  urlTemplate: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+  attribution:
+    'Map data: &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> ' +
+    'contributors, <a href="http://viewfinderpanoramas.org">SRTM</a> | Map style: &copy; ' +
+    '<a href="https://opentopomap.org">OpenTopoMap</a> ' +
+    '(<a href="https://creativecommons.org/licenses/by-sa/3.0/">CC-BY-SA</a>)',
+  maxZoom: 17,
+  minZoom: MIN_ZOOM,
+  subdomains: ['a', 'b', 'c'],
+  retryAttempts: 3,
+  retryDelay: 1000,
+}
+
+/**
+ * Esri World Imagery tile layer configuration (satellite / aerial photos)
+ * Note the {y}/{x} order of the ArcGIS tile scheme
+ */
+export const ESRI_IMAGERY_TILE_CONFIG: TileLayerConfig = {
+  urlTemplate:
+    'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+  attribution:
+    'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, ' +
+    'and the GIS User Community',
+  maxZoom: MAX_ZOOM,
+  minZoom: MIN_ZOOM,
+  retryAttempts: 3,
+  retryDelay: 1000,
+}
+
+/**
+ * Local tile server configuration (no internet access needed)
+ * Present when the dev/preview server was started with LOCAL_TILES pointing at
+ * an XYZ tile directory or an .mbtiles file (see plugins/localTiles.ts)
+ */
+export const LOCAL_TILE_CONFIG: TileLayerConfig | null = import.meta.env.VITE_LOCAL_TILES_URL
+  ? {
+      urlTemplate: import.meta.env.VITE_LOCAL_TILES_URL,
+      attribution: import.meta.env.VITE_LOCAL_TILES_ATTRIBUTION || 'Local tiles',
+      maxZoom: Number(import.meta.env.VITE_LOCAL_TILES_MAX_ZOOM) || MAX_ZOOM,
+      minZoom: Number(import.meta.env.VITE_LOCAL_TILES_MIN_ZOOM) || MIN_ZOOM,
+      retryAttempts: 3,
+      retryDelay: 1000,
+    }
+  : null
+
+/**
+ * Basemaps offered in every map panel's layer switcher
+ */
+export const TILE_LAYER_REGISTRY: TileLayerEntry[] = [
+  ...(LOCAL_TILE_CONFIG
+    ? [
+        {
+          id: 'local',
+          name: 'Local tiles (offline)',
+          config: LOCAL_TILE_CONFIG,
+          allowPrefetch: true,
+        },
+      ]
+    : []),
+  {
+    id: 'osm',
+    name: 'Street (OpenStreetMap)',
+    config: DEFAULT_TILE_CONFIG,
+    fallbacks: ['wikimedia'],
+  },
+  {
+    id: 'wikimedia',
+    name: 'Street (Wikimedia)',
+    config: WIKIMEDIA_TILE_CONFIG,
+    fallbacks: ['osm'],
+  },
+  {
+    id: 'topo',
+    name: 'Topographic (OpenTopoMap)',
+    config: OPENTOPOMAP_TILE_CONFIG,
+    fallbacks: ['osm', 'wikimedia'],
+  },
+  {
+    id: 'satellite',
+    name: 'Satellite (Esri)',
+    config: ESRI_IMAGERY_TILE_CONFIG,
+    fallbacks: ['osm', 'wikimedia'],
+  },
+]
+
+/**
+ * Basemap used until the user picks another one (local tiles when served)
+ */
+export const DEFAULT_TILE_LAYER_ID = LOCAL_TILE_CONFIG ? 'local' : 'osm'
+
+/**
+ * Automatic switch to a basemap's fallbacks while its tile server is failing
+ * A tile counts as failed once its retries (TileLayerConfig.retryAttempts) are used up
+ */
+export const TILE_FAILOVER_CONFIG = {
+  /** Tile results considered for the error rate */
+  windowMs: 30 * 1000,
+  /** Results needed before the error rate is trusted */
+  minSamples: 8,
+  /** Share of failed tiles that switches to the next basemap */
+  errorRateThreshold: 0.5,
+  /** How often a switched panel checks whether a preferred basemap is back */
+  probeIntervalMs: 60 * 1000,
+  /** How long the "back to" notice stays visible */
+  restoredNoticeMs: 5000,
+}
+
+/**
+ * Settings for basemaps added from a user URL template
+ */
+export const CUSTOM_TILE_LAYER_CONFIG = {
+  /** Id prefix, keeps custom ids apart from the built-in ones */
+  idPrefix: 'custom-',
+  /** Placeholders every template must contain */
+  requiredPlaceholders: ['{z}', '{x}', '{y}'],
+  /** Attribution shown when none is given */
+  defaultAttribution: 'Custom tiles',
+  maxZoom: MAX_ZOOM,
+  minZoom: MIN_ZOOM,
+}
+
+/**
+ * Local storage key for the basemap chosen in each panel
+ */
+export const TILE_LAYER_STORAGE_KEY = 'distance-comparer:tile-layers'
+
+/**
+ * Local storage key for basemaps added from a user URL template
+ */
+export const CUSTOM_TILE_LAYERS_STORAGE_KEY = 'distance-comparer:custom-tile-layers'
+
+// ============================================================================
+// Offline Tile Cache
+// ============================================================================
+
+/**
+ * IndexedDB tile cache: tiles from http(s) servers are kept for offline use
+ * Least recently used tiles are evicted once the cache outgrows maxBytes
+ */
+export const TILE_CACHE_CONFIG = {
+  /** IndexedDB database and object store */
+  databaseName: 'distance-comparer-tiles',
+  storeName: 'tiles',
+  /** Size limit of all stored tiles */
+  maxBytes: 250 * 1024 * 1024,
+  /** Eviction frees space down to this share of maxBytes */
+  evictToRatio: 0.9,
+  /** Tiles older than this are refreshed when online (kept as fallback) */
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+  /** Minimum time between last-access updates of a tile */
+  touchIntervalMs: 60 * 60 * 1000,
+  /** Largest area download, in tiles */
+  maxPrefetchTiles: 5000,
+  /** Parallel downloads while prefetching */
+  prefetchConcurrency: 4,
+  /** Default number of zoom levels saved below the current one */
+  prefetchZoomSpan: 3,
+}
+
 // ============================================================================
 // Map Configuration
 // ============================================================================
@@ -93,6 +271,44 @@ export const EVENT_DEBOUNCE_DELAY = 150
  */
 export const BREAKPOINT_WIDTH = 768
 
+/**
+ * Layouts offered in the header ('auto' picks side-by-side or stacked by width)
+ */
+export const LAYOUT_OPTIONS: Record<'auto' | LayoutMode, string> = {
+  auto: 'Auto',
+  'side-by-side': 'Side by side',
+  stacked: 'Stacked',
+  overlay: 'Overlay',
+  swipe: 'Swipe',
+}
+
+/**
+ * Overlay and swipe layouts (both maps in one viewport)
+ */
+export const OVERLAY_LAYOUT_CONFIG = {
+  /** Initial opacity of the left map's tiles in the overlay layout */
+  defaultOpacity: 0.5,
+  /** Initial divider position in the swipe layout (fraction of the width) */
+  defaultSwipePosition: 0.5,
+  /** Arrow-key step when moving the divider or changing the opacity */
+  keyboardStep: 0.05,
+} as const
+
+/**
+ * View sync modes offered in the header
+ */
+export const VIEW_SYNC_MODE_OPTIONS: Record<ViewSyncMode, string> = {
+  independent: 'Independent',
+  zoom: 'Same zoom',
+  scale: 'Same scale',
+  pan: 'Same scale + pan',
+}
+
+/**
+ * Zoom differences below this are treated as already in sync
+ */
+export const VIEW_SYNC_ZOOM_TOLERANCE = 0.01
+
 // ============================================================================
 // Distance Line Configuration (Feature 002)
 // ============================================================================
@@ -111,6 +327,8 @@ export const DEFAULT_LINE_STYLE = {
   dashArray: undefined,
   /** Endpoint marker radius in pixels */
   endpointRadius: 8,
+  /** Intermediate path vertex marker radius in pixels */
+  vertexRadius: 6,
   /** Endpoint fill color */
   endpointFillColor: '#FF0000',
   /** Endpoint border color (white for contrast) */
@@ -119,6 +337,37 @@ export const DEFAULT_LINE_STYLE = {
   endpointBorderWeight: 2,
 } as const
 
+/**
+ * Colour palette for multiple simultaneous lines (assigned in order, then cycled)
+ */
+export const LINE_COLOR_PALETTE = [
+  '#FF0000',
+  '#1E88E5',
+  '#43A047',
+  '#FB8C00',
+  '#8E24AA',
+  '#00ACC1',
+  '#D81B60',
+  '#6D4C41',
+] as const
+
+/**
+ * Fitting a map around a line ("Fit line", auto-fit of the right-map copy)
+ */
+export const LINE_FIT_CONFIG = {
+  /** Space kept between the line and the map edge (pixels) */
+  padding: 40,
+  /** Highest zoom used when fitting (short lines would otherwise zoom in to street level) */
+  maxZoom: 16,
+  /** Distance of the off-screen indicator arrow from the map edge (pixels) */
+  indicatorInset: 24,
+} as const
+
+/**
+ * Extra line weight (pixels) applied to the selected line
+ */
+export const SELECTED_LINE_WEIGHT_BONUS = 2
+
 /**
  * Preview line style (dashed, lower opacity)
  */
@@ -128,6 +377,231 @@ export const PREVIEW_LINE_STYLE = {
   opacity: 0.5,
 } as const
 
+/**
+ * Default Earth model for distance calculations (user-selectable per session)
+ */
+export const DEFAULT_GEODESIC_MODEL: GeodesicModel = 'vincenty'
+
+/**
+ * Session storage key for the selected Earth model
+ */
+export const GEODESIC_MODEL_STORAGE_KEY = 'distance-comparer:geodesic-model'
+
+/**
+ * Path creation settings (multi-segment measurement mode)
+ */
+export const PATH_CREATION_CONFIG = {
+  /** Clicks within this many pixels of the last vertex are ignored (double-click) */
+  duplicateVertexTolerancePx: 4,
+  /** Same tolerance for taps (fingers land less precisely than a mouse) */
+  touchDuplicateVertexTolerancePx: 12,
+} as const
+
+/**
+ * Rotation snapping (right map), active while a modifier key is held
+ */
+export const ROTATION_SNAP_CONFIG = {
+  /** Increment with Shift held (degrees) */
+  stepDegrees: 15,
+  /** Increment with Alt/Option held: cardinal directions (degrees) */
+  cardinalStepDegrees: 90,
+} as const
+
+/**
+ * Rotation pivot (right map): the point that stays fixed while rotating
+ */
+export const ROTATION_PIVOT_CONFIG = {
+  /** Pivot used until the user picks another */
+  defaultPivot: 'start' as RotationPivot,
+  /** Radius of the marker drawn at a midpoint pivot (pixels) */
+  markerRadius: 4,
+  /** Refinement passes when rotating to an exact bearing around the pivot */
+  maxIterations: 8,
+  /** Bearing tolerance for those passes (degrees) */
+  toleranceDegrees: 1e-6,
+} as const
+
+/**
+ * Rotation pivots offered in the header selector
+ */
+export const ROTATION_PIVOT_OPTIONS: Record<RotationPivot, string> = {
+  start: 'Start',
+  midpoint: 'Midpoint',
+  end: 'End',
+}
+
+/**
+ * Touch input settings (handles and gestures)
+ */
+export const TOUCH_INPUT_CONFIG = {
+  /** Handle size multiplier when the last input was touch (finger-sized hit targets) */
+  handleScale: 1.75,
+  /** Minimum finger separation before a two-finger rotation is tracked (pixels) */
+  minGestureSpanPx: 20,
+} as const
+
+/**
+ * Geodesic path densification for rendering lines as great-circle arcs
+ * Vertex count adapts to line length in screen pixels at the current zoom
+ */
+export const GEODESIC_PATH_CONFIG = {
+  /** Target on-screen length of each rendered segment in pixels */
+  pixelsPerSegment: 8,
+  /** Lower bound on segments (1 = straight two-vertex line) */
+  minSegments: 1,
+  /** Upper bound on segments to cap rendering cost */
+  maxSegments: 256,
+  /** Latitude (degrees) beyond which the Mercator stretch stops growing (it is infinite at the poles) */
+  maxStretchLatitude: 85,
+} as const
+
+/**
+ * Polygon fill style (area comparison mode)
+ */
+export const POLYGON_FILL_STYLE = {
+  /** Fill opacity of closed polygons */
+  fillOpacity: 0.2,
+} as const
+
+/**
+ * Area unit conversion factors (square meters per unit)
+ */
+export const AREA_UNIT_FACTORS = {
+  'square-meters': 1,
+  'square-kilometers': 1e6,
+  hectares: 1e4,
+  acres: 4046.8564224,
+  'square-miles': 2589988.110336,
+} as const
+
+/**
+ * Area unit labels for display
+ */
+export const AREA_UNIT_LABELS = {
+  'square-meters': 'm²',
+  'square-kilometers': 'km²',
+  hectares: 'ha',
+  acres: 'acres',
+  'square-miles': 'sq mi',
+} as const
+
+/**
+ * Distance unit conversion factors (meters per unit)
+ */
+export const DISTANCE_UNIT_FACTORS = {
+  meters: 1,
+  kilometers: 1000,
+  miles: 1609.344,
+  feet: 0.3048,
+  'nautical-miles': 1852,
+  yards: 0.9144,
+} as const
+
+/**
+ * Distance unit symbols for display
+ */
+export const DISTANCE_UNIT_LABELS = {
+  meters: 'm',
+  kilometers: 'km',
+  miles: 'mi',
+  feet: 'ft',
+  'nautical-miles': 'nmi',
+  yards: 'yd',
+} as const
+
+/**
+ * Distance units offered in the unit selector
+ * Metric and imperial switch to their small unit (m / ft) for short distances
+ */
+export const DISTANCE_UNIT_OPTIONS: Partial<Record<DistanceUnit, string>> = {
+  kilometers: 'Metric (m / km)',
+  miles: 'Imperial (ft / mi)',
+  'nautical-miles': 'Nautical miles',
+  yards: 'Yards',
+}
+
+/**
+ * Default display unit for distances
+ */
+export const DEFAULT_DISTANCE_UNIT: DistanceUnit = 'kilometers'
+
+/**
+ * Local storage key for the remembered distance unit
+ */
+export const DISTANCE_UNIT_STORAGE_KEY = 'distance-comparer:distance-unit'
+
+/**
+ * Number formats offered in the format selector (sample shown as label)
+ */
+export const NUMBER_LOCALE_OPTIONS: Record<NumberLocale, string> = {
+  auto: 'Browser default',
+  'en-US': '1,234.5',
+  'de-DE': '1.234,5',
+  'fr-FR': '1 234,5',
+}
+
+/**
+ * Local storage key for the remembered number format
+ */
+export const NUMBER_LOCALE_STORAGE_KEY = 'distance-comparer:number-locale'
+
+/**
+ * Unit names accepted when typing a distance (lower case)
+ */
+export const DISTANCE_UNIT_ALIASES: Record<string, DistanceUnit> = {
+  m: 'meters',
+  meter: 'meters',
+  meters: 'meters',
+  metre: 'meters',
+  metres: 'meters',
+  km: 'kilometers',
+  kilometer: 'kilometers',
+  kilometers: 'kilometers',
+  kilometre: 'kilometers',
+  kilometres: 'kilometers',
+  mi: 'miles',
+  mile: 'miles',
+  miles: 'miles',
+  ft: 'feet',
+  foot: 'feet',
+  feet: 'feet',
+  nmi: 'nautical-miles',
+  nm: 'nautical-miles',
+  yd: 'yards',
+  yard: 'yards',
+  yards: 'yards',
+}
+
+/**
+ * Coordinate notations offered in the line inspector
+ */
+export const COORDINATE_FORMAT_OPTIONS: Record<CoordinateFormat, string> = {
+  decimal: 'Decimal',
+  dms: 'DMS',
+  utm: 'UTM',
+  mgrs: 'MGRS',
+}
+
+/**
+ * Default coordinate notation
+ */
+export const DEFAULT_COORDINATE_FORMAT: CoordinateFormat = 'decimal'
+
+/**
+ * Local storage key for the remembered coordinate notation
+ */
+export const COORDINATE_FORMAT_STORAGE_KEY = 'distance-comparer:coordinate-format'
+
+/**
+ * On-map distance label settings
+ */
+export const DISTANCE_LABEL_CONFIG = {
+  /** Distance of the label from the line, perpendicular to it (pixels) */
+  offsetPx: 12,
+  /** Label font size (pixels) */
+  fontSize: 12,
+} as const
+
 /**
  * Distance formatting thresholds
  */
@@ -136,6 +610,8 @@ export const DISTANCE_THRESHOLDS = {
   metersToKilometers: 1000,
   /** Below this value, use 2 decimal places (10m) */
   highPrecisionMeters: 10,
+  /** Below this many miles / nautical miles, use the small unit (ft / m) */
+  smallUnitThreshold: 0.1,
 } as const
 
 /**
@@ -149,3 +625,152 @@ export const DISTANCE_LINE_PERFORMANCE = {
   /** Distance calculation cache TTL (milliseconds) */
   calculationCacheTtl: 5000,
 } as const
+
+// ============================================================================
+// Shareable URL State
+// ============================================================================
+
+/**
+ * URL state encoding settings
+ */
+export const URL_STATE_CONFIG = {
+  /** Format version written to the `v` parameter */
+  version: 1,
+  /** Decimal places for coordinates (6 ≈ 0.1 m) */
+  coordinatePrecision: 6,
+  /** Decimal places for zoom levels and bearings */
+  anglePrecision: 2,
+  /** Decimal places for track leg lengths (meters) */
+  lengthPrecision: 1,
+  /** Delay before writing interaction changes to the URL (milliseconds) */
+  updateDebounceMs: 300,
+} as const
+
+// ============================================================================
+// Track Files (Import / Export)
+// ============================================================================
+
+/**
+ * GeoJSON / GPX / KML track import settings
+ */
+export const TRACK_IMPORT_CONFIG = {
+  /** File extensions offered by the file picker */
+  accept: '.geojson,.json,.gpx,.kml',
+  /** Larger files are rejected before reading (bytes) */
+  maxFileBytes: 20 * 1024 * 1024,
+  /** Tracks with more points are simplified to at most this many vertices */
+  maxVertices: 500,
+  /** Starting Douglas-Peucker tolerance when simplifying (meters) */
+  simplifyToleranceMeters: 1,
+  /** Padding around imported tracks when fitting the left map (pixels) */
+  fitPadding: 40,
+} as const
+
+/**
+ * Track file formats offered for export
+ */
+export const TRACK_FILE_FORMAT_OPTIONS: Record<TrackFileFormat, string> = {
+  geojson: 'GeoJSON',
+  gpx: 'GPX',
+  kml: 'KML',
+}
+
+/**
+ * Comparison export settings
+ */
+export const TRACK_EXPORT_CONFIG = {
+  /** Downloaded file name (date and extension are appended) */
+  fileName: 'distance-comparison',
+  /** Decimal places for exported coordinates (7 ≈ 1 cm) */
+  coordinatePrecision: 7,
+  /** File extension and MIME type per format */
+  files: {
+    geojson: { extension: 'geojson', mimeType: 'application/geo+json' },
+    gpx: { extension: 'gpx', mimeType: 'application/gpx+xml' },
+    kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  },
+} as const
+
+// ============================================================================
+// Snapshot Export
+// ============================================================================
+
+/**
+ * Side-by-side snapshot image settings
+ */
+export const SNAPSHOT_CONFIG = {
+  /** Downloaded file name (date and extension are appended) */
+  fileName: 'distance-comparison',
+  /** Space between the two map panels (pixels) */
+  gapPx: 4,
+  /** Height of the caption bar below the maps (pixels) */
+  captionHeightPx: 44,
+  /** Caption font size (pixels) */
+  captionFontSize: 18,
+  /** Longest scale bar drawn in each panel (pixels) */
+  scaleBarMaxWidthPx: 120,
+  /** Distance of scale bar and attribution from the panel edges (pixels) */
+  marginPx: 10,
+  /** Font used for every text in the snapshot */
+  fontFamily: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif',
+  /** Background behind panels and caption */
+  background: '#ffffff',
+} as const
+
+/**
+ * Snapshot formats offered in the header
+ */
+export const SNAPSHOT_FORMAT_OPTIONS: Record<SnapshotFormat, string> = {
+  png: 'PNG',
+  svg: 'SVG',
+}
+
+// ============================================================================
+// Undo History
+// ============================================================================
+
+/**
+ * Undo/redo history settings
+ */
+export const HISTORY_CONFIG = {
+  /** Oldest steps are dropped beyond this many */
+  maxEntries: 100,
+} as const
+
+/**
+ * Operation names shown on the undo/redo buttons
+ */
+export const HISTORY_ACTION_LABELS: Record<HistoryAction, string> = {
+  create: 'create line',
+  'move-point': 'move point',
+  rotate: 'rotate line',
+  'move-line': 'move line',
+  edit: 'edit line',
+  delete: 'delete line',
+  import: 'import',
+  reset: 'reset',
+}
+
+// ============================================================================
+// Place Search (Geocoding)
+// ============================================================================
+
+/**
+ * Place search settings
+ */
+export const GEOCODING_CONFIG = {
+  /** Nominatim search endpoint (OpenStreetMap) */
+  nominatimUrl: 'https://nominatim.openstreetmap.org/search',
+  /** Minimum time between Nominatim requests (usage policy: at most 1 per second) */
+  nominatimMinIntervalMs: 1000,
+  /** Maximum number of results shown */
+  resultLimit: 5,
+  /** Minimum query length before searching */
+  minQueryLength: 2,
+  /** Delay after the last keystroke before a search-as-you-type search (milliseconds) */
+  searchDebounceMs: 400,
+  /** Zoom used for results without an extent */
+  pointZoom: 12,
+  /** Padding around a result's extent when fitting the map (pixels) */
+  fitPadding: 20,
+} as const
@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+/**
+ * Build-time settings exposed to the app (set by plugins/localTiles.ts)
+ */
+interface ImportMetaEnv {
+  /** URL template of the local tile server, when LOCAL_TILES is set */
+  readonly VITE_LOCAL_TILES_URL?: string
+  /** Attribution of the local tiles */
+  readonly VITE_LOCAL_TILES_ATTRIBUTION?: string
+  /** Zoom range found in the local tile source */
+  readonly VITE_LOCAL_TILES_MIN_ZOOM?: string
+  readonly VITE_LOCAL_TILES_MAX_ZOOM?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
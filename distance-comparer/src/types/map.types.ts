@@ -69,6 +69,36 @@ export interface TileLayerConfig {
   retryDelay?: number
 }
 
+/**
+ * Basemap offered in a map panel's layer switcher
+ */
+export interface TileLayerEntry {
+  /** Registry key (remembered per panel) */
+  id: string
+  /** Name shown in the switcher */
+  name: string
+  /** Tile source */
+  config: TileLayerConfig
+  /** Added by the user from a URL template */
+  custom?: boolean
+  /** Registry ids of the basemaps to switch to, in order, when this one keeps failing */
+  fallbacks?: string[]
+  /** Provider permits bulk downloads ("Save area"); public servers usually forbid them */
+  allowPrefetch?: boolean
+}
+
+/**
+ * Basemap change made by the tile failover, shown as a notice on the panel
+ * - failover: `from` kept failing, `to` is shown instead
+ * - restored: the preferred basemap `to` works again
+ * - unavailable: `from` keeps failing and there is nothing left to switch to
+ */
+export interface TileFailoverNotice {
+  kind: 'failover' | 'restored' | 'unavailable'
+  from: string
+  to: string
+}
+
 // ============================================================================
 // Event Types
 // ============================================================================
@@ -145,8 +175,39 @@ export type LoadingState = 'idle' | 'loading' | 'error'
 
 /**
  * Layout mode for MapContainer
+ * - side-by-side / stacked: one panel per map
+ * - overlay: one viewport, the left map drawn semi-transparently over the right map
+ * - swipe: one viewport, a draggable divider shows the left map on one side
+ *   and the right map on the other
+ */
+export type LayoutMode = 'side-by-side' | 'stacked' | 'overlay' | 'swipe'
+
+/**
+ * Points of the two maps drawn at the same screen position (overlay and swipe
+ * layouts), e.g. the start of a line and the anchor of its right-map copy
+ */
+export interface ViewAnchors {
+  left: Coordinate
+  right: Coordinate
+}
+
+/**
+ * How MapContainer keeps the two map views in step
+ * - independent: each map moves on its own
+ * - zoom: both maps use the same zoom level
+ * - scale: both maps show the same ground distance per pixel (corrects the
+ *   Mercator stretch between different latitudes)
+ * - pan: same ground scale, and panning one map pans the other by the same offset
+ */
+export type ViewSyncMode = 'independent' | 'zoom' | 'scale' | 'pan'
+
+/**
+ * Measurement mode for the left map
+ * - line: two-click straight measurement
+ * - path: multi-segment polyline, one vertex per click
+ * - polygon: closed ring, one vertex per click (area comparison)
  */
-export type LayoutMode = 'side-by-side' | 'stacked'
+export type MeasurementMode = 'line' | 'path' | 'polygon'
 
 /**
  * Input mode for map interaction
@@ -191,12 +252,57 @@ export interface DistanceLine {
   startPoint: Coordinate
   /** End point coordinates */
   endPoint: Coordinate
-  /** Real-world distance in meters */
+  /** All vertices for multi-segment paths (first = startPoint, last = endPoint) */
+  vertices?: Coordinate[]
+  /** Real-world distance in meters (summed over all segments for paths, perimeter for polygons) */
   distanceMeters: number
+  /** Whether the vertices form a closed polygon ring (last vertex connects to first) */
+  closed?: boolean
+  /** Geodesic area in square meters (closed polygons only) */
+  areaSquareMeters?: number
   /** Bearing in degrees (0-360), for right map only */
   bearing?: number
 }
 
+/**
+ * One leg of a transplantable path shape
+ * Intrinsic geometry: independent of where the shape is placed on the globe
+ */
+export interface PathLeg {
+  /** Geodesic length of the leg in meters */
+  distanceMeters: number
+  /** Turn at the leg's start vertex relative to the incoming direction (degrees, clockwise positive; 0 for the first leg) */
+  turnAngle: number
+}
+
+/**
+ * Entry in the line manager: one left measurement paired with its right-map counterpart
+ */
+export interface ManagedLine {
+  /** Unique identifier shared by the left line and its right counterpart */
+  id: string
+  /** Display name shown in the line list */
+  name: string
+  /** Line colour (hex) assigned from the palette */
+  color: string
+  /** Whether both lines are drawn on the maps */
+  visible: boolean
+  /** Measurement mode used to create the line */
+  mode: MeasurementMode
+  /** Lifecycle: waiting for clicks on the left map, or measured */
+  status: 'creating' | 'ready'
+  /** Latest measured distance in meters (perimeter for polygons) */
+  distanceMeters: number
+  /** Latest geodesic area in square meters (polygons only) */
+  areaSquareMeters?: number
+}
+
+/**
+ * Draggable handle on a distance line
+ * 'start'/'end' for the endpoints, a vertex index for intermediate path vertices
+ */
+export type LineHandle = 'start' | 'end' | number
+
 /**
  * Draggable anchor point (endpoint) of a distance line
  */
@@ -212,6 +318,13 @@ export interface LineEndpoint {
 /**
  * Rotational state of right map's distance line
  */
+/**
+ * Point of a right-map line that stays fixed while it rotates
+ * start: first vertex; end: last vertex; midpoint: halfway along the path
+ * (halfway around the perimeter for polygons)
+ */
+export type RotationPivot = 'start' | 'end' | 'midpoint'
+
 export interface LineOrientation {
   /** Direction in degrees (0=North, 90=East, 180=South, 270=West) */
   bearing: number
@@ -235,6 +348,8 @@ export interface LineStyle {
   dashArray?: string
   /** Endpoint circle radius in pixels */
   endpointRadius: number
+  /** Intermediate path vertex circle radius in pixels */
+  vertexRadius: number
   /** Endpoint fill color hex */
   endpointFillColor: string
   /** Endpoint border color hex */
@@ -246,4 +361,264 @@ export interface LineStyle {
 /**
  * Distance unit for display formatting
  */
-export type DistanceUnit = 'meters' | 'kilometers' | 'miles' | 'feet'
+export type DistanceUnit =
+  | 'meters'
+  | 'kilometers'
+  | 'miles'
+  | 'feet'
+  | 'nautical-miles'
+  | 'yards'
+
+/**
+ * Number formatting locale ('auto' follows the browser)
+ */
+export type NumberLocale = 'auto' | 'en-US' | 'de-DE' | 'fr-FR'
+
+/**
+ * Notation for displaying coordinates in the line inspector
+ * (typed input is accepted in any of them)
+ */
+export type CoordinateFormat = 'decimal' | 'dms' | 'utm' | 'mgrs'
+
+/**
+ * Earth model used for geodesic calculations
+ * - haversine: spherical Earth with mean radius (fast, ±0.5%)
+ * - vincenty: WGS84 ellipsoid (sub-millimetre accuracy)
+ */
+export type GeodesicModel = 'haversine' | 'vincenty'
+
+/**
+ * Area unit for display formatting
+ */
+export type AreaUnit =
+  | 'square-meters'
+  | 'square-kilometers'
+  | 'hectares'
+  | 'acres'
+  | 'square-miles'
+
+// ============================================================================
+// Shareable URL State Types
+// ============================================================================
+
+/**
+ * Center and zoom of one map panel
+ */
+export interface MapView {
+  /** Geographic center of the view */
+  center: Coordinate
+  /** Zoom level */
+  zoom: number
+}
+
+/**
+ * One measurement as encoded in a shareable link
+ */
+export interface SharedLineState {
+  /** Measurement mode used to create the line */
+  mode: MeasurementMode
+  /** Left-map vertices (two for a line; ring without closing vertex for a polygon) */
+  vertices: Coordinate[]
+  /** Right-map anchor (first vertex of the transplanted shape) */
+  rightAnchor?: Coordinate
+  /** Right-map bearing of the first leg in degrees */
+  rightBearing?: number
+  /** Imported tracks: length of each leg along the recorded points in meters (vertices are simplified) */
+  legLengths?: number[]
+}
+
+/**
+ * Complete application state encoded in a shareable link
+ */
+export interface ShareableState {
+  /** Left map view */
+  leftView?: MapView
+  /** Right map view */
+  rightView?: MapView
+  /** All measurements in list order */
+  lines: SharedLineState[]
+  /** Earth model used for calculations */
+  geodesicModel?: GeodesicModel
+  /** Display unit for areas */
+  areaUnit?: AreaUnit
+  /** Display unit for distances */
+  distanceUnit?: DistanceUnit
+}
+
+// ============================================================================
+// Track Import Types
+// ============================================================================
+
+/**
+ * File format of an imported track
+ */
+export type TrackFileFormat = 'geojson' | 'gpx' | 'kml'
+
+/**
+ * One line read from an imported file (a GeoJSON LineString part, GPX track
+ * segment or route, or KML LineString)
+ */
+export interface ImportedTrack {
+  /** Track name from the file, or the file name */
+  name: string
+  /** Format the track was read from */
+  format: TrackFileFormat
+  /** Vertices loaded as the measurement (simplified if the track is very long) */
+  vertices: Coordinate[]
+  /** Full-resolution points of each leg, from vertices[i] to vertices[i + 1] */
+  segments: Coordinate[][]
+  /** Number of points in the file */
+  sourcePointCount: number
+  /** Geodesic length of the full-resolution track in meters */
+  distanceMeters: number
+}
+
+/**
+ * One side of a measurement prepared for export
+ */
+export interface ExportedLine {
+  /** Line manager ID (shared by the left line and its right-map copy) */
+  id: string
+  /** Display name */
+  name: string
+  /** Map the geometry comes from */
+  side: 'left' | 'right'
+  /** Measurement mode used to create the line */
+  mode: MeasurementMode
+  /** Line colour (hex) */
+  color: string
+  /** Vertices in order (ring without closing vertex for polygons) */
+  vertices: Coordinate[]
+  /** Whether the vertices form a closed polygon */
+  closed: boolean
+  /** Geodesic length in meters (perimeter for polygons) */
+  distanceMeters: number
+  /** Bearing of the first leg in degrees */
+  bearing: number
+  /** Geodesic area in square meters (polygons only) */
+  areaSquareMeters?: number
+}
+
+// ============================================================================
+// Snapshot Types
+// ============================================================================
+
+/**
+ * Image format of a comparison snapshot
+ * - png: tiles, lines, labels, scale bars and caption
+ * - svg: vector overlays only (lines, labels, scale bars and caption)
+ */
+export type SnapshotFormat = 'png' | 'svg'
+
+// ============================================================================
+// Undo History Types
+// ============================================================================
+
+/**
+ * Line operation recorded in the undo history
+ */
+export type HistoryAction =
+  | 'create'
+  | 'move-point'
+  | 'rotate'
+  | 'move-line'
+  | 'edit'
+  | 'delete'
+  | 'import'
+  | 'reset'
+
+/**
+ * One measured line as recorded in the undo history
+ * Keeps the line manager identity so undone lines come back unchanged
+ */
+export interface LineSnapshot extends SharedLineState {
+  /** Line manager ID */
+  id: string
+  /** Display name shown in the line list */
+  name: string
+  /** Line colour (hex) */
+  color: string
+  /** Imported tracks: full-resolution points of each leg (not part of shared links) */
+  trackSegments?: Coordinate[][]
+}
+
+/**
+ * Undoable step: every measured line before and after one operation
+ */
+export interface HistoryEntry {
+  /** Operation that produced the change */
+  action: HistoryAction
+  /** Measured lines before the operation */
+  before: LineSnapshot[]
+  /** Measured lines after the operation */
+  after: LineSnapshot[]
+}
+
+// ============================================================================
+// Geocoding Types
+// ============================================================================
+
+/**
+ * A place returned by a geocoding provider
+ */
+export interface GeocodingResult {
+  /** Provider-specific unique identifier */
+  id: string
+  /** Human-readable place name */
+  name: string
+  /** Representative point of the place */
+  center: Coordinate
+  /** Extent of the place, if known (preferred for framing the map) */
+  bounds?: Bounds
+}
+
+/**
+ * Options for a single geocoding query
+ */
+export interface GeocodingSearchOptions {
+  /** Maximum number of results */
+  limit?: number
+  /** Signal used to cancel a superseded request */
+  signal?: AbortSignal
+}
+
+/**
+ * Pluggable place search backend (online service or offline gazetteer)
+ */
+export interface GeocodingProvider {
+  /** Display name of the provider */
+  name: string
+  /**
+   * Search while the user types (debounced); otherwise only on Enter
+   * Leave unset for online services whose usage policy forbids autocomplete
+   */
+  searchAsYouType?: boolean
+  /** Resolve free text to matching places, best match first */
+  search(query: string, options?: GeocodingSearchOptions): Promise<GeocodingResult[]>
+}
+
+// ============================================================================
+// Tile Cache Types
+// ============================================================================
+
+/**
+ * Contents of the offline tile cache
+ */
+export interface TileCacheStats {
+  /** Number of stored tiles */
+  tileCount: number
+  /** Total size of the stored tiles in bytes */
+  bytes: number
+}
+
+/**
+ * Progress of an area download for offline use
+ */
+export interface TilePrefetchProgress {
+  /** Tiles stored or already cached */
+  done: number
+  /** Tiles that could not be downloaded */
+  failed: number
+  /** Tiles in the requested area and zoom range */
+  total: number
+}
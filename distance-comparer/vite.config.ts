@@ -1,10 +1,18 @@
 import { defineConfig } from 'vite'
 import vue from '@vitejs/plugin-vue'
+import { localTiles } from './plugins/localTiles'
 
 // https://vite.dev/config/
 // T092: Production build optimization
 export default defineConfig({
-  plugins: [vue()],
+  plugins: [
+    vue(),
+    // Offline basemap: LOCAL_TILES=<XYZ directory | .mbtiles file> npm run dev
+    localTiles({
+      source: process.env.LOCAL_TILES,
+      attribution: process.env.LOCAL_TILES_ATTRIBUTION,
+    }),
+  ],
   build: {
     // Target modern browsers
     target: 'es2020',